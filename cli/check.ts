@@ -0,0 +1,135 @@
+import assert from 'node:assert/strict'
+import { type ScheduleKind, MAX_GENERATED_MICROBATCHES, SCHEDULE_LABELS, extractOpOrder, generateSchedule } from '../src/schedules'
+import {
+  type GridData,
+  DEFAULT_COMM_LATENCIES,
+  DEFAULT_PASS_DURATIONS,
+  MAX_GPUS,
+  MAX_TIMESTEPS,
+  createEmptyGrid,
+  getOperations,
+  setOperation
+} from '../src/utils'
+import { DEFAULT_MEMORY_CONFIG, computeMemoryBytes } from '../src/memory'
+import { validateSchedule } from '../src/validation'
+import { computeMetrics } from '../src/metrics'
+import { DEFAULT_ITERATION_CONFIG, tileIterations } from '../src/iterations'
+import { renderFigure } from '../src/figure'
+import { DEFAULT_TRACE_OPTIONS, importTrace } from '../src/traceImport'
+import sampleTrace from '../src/samples/1f1b-trace.json'
+import { fillRange, pasteTSV } from '../src/editing'
+import { parseSchedule, serializeSchedule } from '../src/serialization'
+import { DEFAULT_PARALLEL_CONFIG } from '../src/parallelism'
+import { DEFAULT_APPEARANCE } from '../src/colors'
+import { DEFAULT_ANNOTATIONS } from '../src/annotations'
+import { DEFAULT_MODEL_CONFIG } from '../src/costModel'
+
+// Timesteps a zoomed-in view of a long schedule draws at once
+const VISIBLE_TIMESTEPS = 200
+
+/**
+ * Runs a grid through everything the page computes for it: metrics, memory, validation and the
+ * figure. Throws if any of them fails or the schedule isn't valid.
+ */
+function renderAll(gridData: GridData) {
+  const numTimesteps = gridData[0].length
+  const metrics = computeMetrics(gridData)
+  assert.ok(metrics.makespan <= MAX_TIMESTEPS, `makespan ${metrics.makespan} is past the longest grid`)
+  computeMemoryBytes(gridData, DEFAULT_MEMORY_CONFIG)
+  const violations = validateSchedule(gridData)
+  assert.deepEqual(violations.map(violation => violation.message), [])
+  renderFigure({
+    gridData,
+    numGPUs: gridData.length,
+    numTimesteps,
+    violations,
+    memoryConfig: DEFAULT_MEMORY_CONFIG,
+    visibleRange: { timeStart: Math.max(0, numTimesteps - VISIBLE_TIMESTEPS), timeEnd: numTimesteps },
+  })
+}
+
+const CHECKS: Array<[string, () => void]> = [
+  ...(Object.keys(SCHEDULE_LABELS) as ScheduleKind[]).map((kind): [string, () => void] => [
+    `${SCHEDULE_LABELS[kind]} with ${MAX_GPUS} GPUs and ${MAX_GENERATED_MICROBATCHES} microbatches`,
+    () => {
+      const gridData = generateSchedule(kind, { numGPUs: MAX_GPUS, numMicrobatches: MAX_GENERATED_MICROBATCHES, numChunks: 2 })
+      assert.equal(gridData.length, MAX_GPUS)
+      renderAll(gridData)
+    },
+  ]),
+  [
+    `Four iterations of 1F1B with ${MAX_GPUS} GPUs and ${MAX_GENERATED_MICROBATCHES} microbatches`,
+    () => {
+      const gridData = generateSchedule('1f1b', { numGPUs: MAX_GPUS, numMicrobatches: MAX_GENERATED_MICROBATCHES })
+      const tiled = tileIterations(gridData, { ...DEFAULT_ITERATION_CONFIG, numIterations: 4, overlap: true }, DEFAULT_MEMORY_CONFIG)
+      assert.equal(tiled.numMicrobatches, MAX_GENERATED_MICROBATCHES)
+      renderAll(tiled.gridData)
+    },
+  ],
+  [
+    `1F1B filling ${MAX_GPUS} GPUs for close to ${MAX_TIMESTEPS} timesteps`,
+    () => {
+      // 1F1B takes two timesteps per microbatch after a warmup of two per GPU
+      const numMicrobatches = Math.floor(MAX_TIMESTEPS / 2) - 2 * MAX_GPUS
+      const gridData = generateSchedule('1f1b', { numGPUs: MAX_GPUS, numMicrobatches })
+      assert.equal(getOperations(gridData).length, 2 * MAX_GPUS * numMicrobatches)
+      renderAll(gridData)
+    },
+  ],
+  [
+    'The sample trace imports as 1F1B on 4 GPUs with 8 microbatches',
+    () => {
+      const trace = importTrace(sampleTrace, DEFAULT_TRACE_OPTIONS)
+      assert.deepEqual(trace.warnings, [])
+      assert.equal(trace.numGPUs, 4)
+      assert.equal(trace.numTimesteps, 34)
+      assert.equal(getOperations(trace.gridData).length, 64)
+      // The trace's spans run longer or shorter than generated passes, but in the same order
+      const passesOf = (gridData: GridData) =>
+        extractOpOrder(gridData).map(order => order.map(op => `${op.passType} ${op.microbatch}`))
+      assert.deepEqual(passesOf(trace.gridData), passesOf(generateSchedule('1f1b', { numGPUs: 4, numMicrobatches: 8 })))
+      renderAll(trace.gridData)
+    },
+  ],
+  [
+    'Pasted, typed and filled cells save and load back unchanged',
+    () => {
+      // Tokens a schedule file can't store paste as empty cells
+      const pasted = pasteTSV(createEmptyGrid(2, 8), { gpuIdx: 0, timeIdx: 0 },
+        'F1\t~\tB1b\t1.5\t-2\tF3z\t99999999999999999999\tW0\n2\tR2\tO1\tf3h', 'forward')
+      assert.equal(getOperations(pasted).length, 7)
+      assert.throws(() => setOperation(pasted, 1, 5, 1.5, 'forward', 1))
+      assert.throws(() => setOperation(pasted, 1, 5, 4, 'forward', 1, 8))
+      assert.throws(() => fillRange(pasted, { gpuStart: 1, gpuEnd: 1, timeStart: 5, timeEnd: 7 }, -1, 'forward', 1))
+      const edited = fillRange(setOperation(pasted, 1, 4, 4, 'backward', 1, 1), { gpuStart: 1, gpuEnd: 1, timeStart: 5, timeEnd: 7 }, 5, 'forward', 2)
+      const gridData = parseSchedule(serializeSchedule({
+        numGPUs: edited.length,
+        numTimesteps: edited[0].length,
+        passType: 'forward',
+        passDurations: DEFAULT_PASS_DURATIONS,
+        memoryConfig: DEFAULT_MEMORY_CONFIG,
+        latencies: DEFAULT_COMM_LATENCIES,
+        parallel: DEFAULT_PARALLEL_CONFIG,
+        appearance: DEFAULT_APPEARANCE,
+        annotations: DEFAULT_ANNOTATIONS,
+        model: DEFAULT_MODEL_CONFIG,
+        gridData: edited,
+      })).gridData
+      assert.deepEqual(gridData, edited)
+    },
+  ],
+]
+
+let failures = 0
+for (const [name, check] of CHECKS) {
+  const started = Date.now()
+  try {
+    check()
+    process.stdout.write(`ok    ${name} (${((Date.now() - started) / 1000).toFixed(1)} s)\n`)
+  } catch (error) {
+    failures++
+    process.stdout.write(`FAIL  ${name}\n      ${error instanceof Error ? error.message : String(error)}\n`)
+  }
+}
+process.stdout.write(`\n${CHECKS.length - failures} of ${CHECKS.length} checks passed\n`)
+if (failures > 0) process.exitCode = 1
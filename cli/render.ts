@@ -0,0 +1,186 @@
+import { readFileSync, writeFileSync } from 'node:fs'
+import { parseArgs } from 'node:util'
+import { type ScheduleState, parseSchedule } from '../src/serialization'
+import { type ScheduleKind, SCHEDULE_LABELS, generateSchedule } from '../src/schedules'
+import { DEFAULT_COMM_LATENCIES, DEFAULT_PASS_DURATIONS, maxOf } from '../src/utils'
+import { DEFAULT_MEMORY_CONFIG, computeMemoryBytes, formatGB } from '../src/memory'
+import { DEFAULT_PARALLEL_CONFIG, computeStepTime, computeSyncPhases } from '../src/parallelism'
+import { validateSchedule } from '../src/validation'
+import { computeMetrics } from '../src/metrics'
+import { type FigureBackground, FIGURE_PALETTES } from '../src/figureExport'
+import { figureToSVG, renderFigure } from '../src/figure'
+import { type ColorScheme, COLOR_SCHEME_LABELS, DEFAULT_APPEARANCE } from '../src/colors'
+import { DEFAULT_ANNOTATIONS } from '../src/annotations'
+import { DEFAULT_MODEL_CONFIG } from '../src/costModel'
+
+const USAGE = `Renders a pipeline schedule to SVG and prints its metrics.
+
+Usage:
+  npm run render -- --schedule <file.json> --out <figure.svg> [options]
+  npm run render -- --generate <kind> --gpus <n> --microbatches <n> --out <figure.svg> [options]
+
+Input (one of):
+  --schedule <file>      Schedule saved from the app with "Save schedule"
+  --generate <kind>      ${Object.keys(SCHEDULE_LABELS).join(', ')}
+    --gpus <n>           Pipeline stages (default 4)
+    --microbatches <n>   Microbatches (default 8)
+    --chunks <n>         Model chunks per GPU for interleaved-1f1b (default 2)
+    --forward <n>        Timesteps per forward (default ${DEFAULT_PASS_DURATIONS.forward})
+    --backward <n>       Timesteps per backward (default ${DEFAULT_PASS_DURATIONS.backward})
+
+Output:
+  --out <file>           Where to write the SVG; without it only the metrics are printed
+  --background <name>    ${Object.keys(FIGURE_PALETTES).join(', ')} (default: the schedule's theme)
+  --colors <scheme>      ${Object.keys(COLOR_SCHEME_LABELS).join(', ')} (default: the schedule's)
+  --scale <n>            Size multiplier (default 1)
+  --no-memory            Leave out the memory charts
+  --title <text>         Title above the figure (default: the schedule's)
+  --legend               Add a legend below the figure
+  --phases               Bracket the warmup, steady state and cooldown
+  --json                 Print the metrics as JSON
+`
+
+class UsageError extends Error {}
+
+function parsePositiveInteger(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback
+  const number = Number(value)
+  if (!Number.isInteger(number) || number < 1) throw new UsageError(`--${name} must be a positive integer`)
+  return number
+}
+
+/**
+ * Loads the schedule named on the command line, or generates one from the generator options
+ */
+function loadSchedule(values: Record<string, string | boolean | undefined>): ScheduleState {
+  const str = (name: string) => values[name] as string | undefined
+  if (str('schedule') && str('generate')) throw new UsageError('Pass either --schedule or --generate, not both')
+  if (str('schedule')) return parseSchedule(readFileSync(str('schedule')!, 'utf8'))
+
+  const kind = str('generate') as ScheduleKind | undefined
+  if (!kind) throw new UsageError('Pass --schedule or --generate')
+  if (!(kind in SCHEDULE_LABELS)) throw new UsageError(`Unknown schedule ${kind}`)
+  const passDurations = {
+    ...DEFAULT_PASS_DURATIONS,
+    forward: parsePositiveInteger(str('forward'), 'forward', DEFAULT_PASS_DURATIONS.forward),
+    backward: parsePositiveInteger(str('backward'), 'backward', DEFAULT_PASS_DURATIONS.backward),
+  }
+  const gridData = generateSchedule(kind, {
+    numGPUs: parsePositiveInteger(str('gpus'), 'gpus', 4),
+    numMicrobatches: parsePositiveInteger(str('microbatches'), 'microbatches', 8),
+    numChunks: parsePositiveInteger(str('chunks'), 'chunks', 2),
+    durations: passDurations,
+    latencies: DEFAULT_COMM_LATENCIES,
+  })
+  return {
+    numGPUs: gridData.length,
+    numTimesteps: gridData[0].length,
+    passType: 'forward',
+    passDurations,
+    memoryConfig: DEFAULT_MEMORY_CONFIG,
+    latencies: DEFAULT_COMM_LATENCIES,
+    parallel: DEFAULT_PARALLEL_CONFIG,
+    appearance: { ...DEFAULT_APPEARANCE, theme: 'light' },
+    annotations: DEFAULT_ANNOTATIONS,
+    model: DEFAULT_MODEL_CONFIG,
+    gridData,
+  }
+}
+
+const percent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`
+
+function main(argv: string[]) {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      schedule: { type: 'string' },
+      generate: { type: 'string' },
+      gpus: { type: 'string' },
+      microbatches: { type: 'string' },
+      chunks: { type: 'string' },
+      forward: { type: 'string' },
+      backward: { type: 'string' },
+      out: { type: 'string' },
+      background: { type: 'string' },
+      colors: { type: 'string' },
+      scale: { type: 'string', default: '1' },
+      'no-memory': { type: 'boolean', default: false },
+      title: { type: 'string' },
+      legend: { type: 'boolean', default: false },
+      phases: { type: 'boolean', default: false },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  })
+  if (values.help) {
+    process.stdout.write(USAGE)
+    return
+  }
+
+  if (values.background && !(values.background in FIGURE_PALETTES)) throw new UsageError(`Unknown background ${values.background}`)
+  if (values.colors && !(values.colors in COLOR_SCHEME_LABELS)) throw new UsageError(`Unknown color scheme ${values.colors}`)
+  const scale = Number(values.scale)
+  if (!(scale > 0)) throw new UsageError('--scale must be a positive number')
+
+  const state = loadSchedule(values)
+  const background = (values.background ?? (state.appearance.theme === 'light' ? 'white' : 'dark')) as FigureBackground
+  const violations = validateSchedule(state.gridData, state.latencies)
+
+  if (values.out) {
+    const figure = renderFigure({
+      gridData: state.gridData,
+      numGPUs: state.numGPUs,
+      numTimesteps: state.numTimesteps,
+      violations,
+      memoryConfig: state.memoryConfig,
+      background,
+      colorScheme: (values.colors ?? state.appearance.colorScheme) as ColorScheme,
+      showMemory: !values['no-memory'],
+      latencies: state.latencies,
+      parallel: state.parallel,
+      annotations: {
+        ...state.annotations,
+        title: values.title ?? state.annotations.title,
+        showLegend: values.legend || state.annotations.showLegend,
+        showPhases: values.phases || state.annotations.showPhases,
+      },
+    })
+    writeFileSync(values.out, figureToSVG(figure, scale))
+  }
+
+  const metrics = computeMetrics(state.gridData)
+  const stepTime = computeStepTime(state.gridData, computeSyncPhases(state.gridData, state.parallel))
+  const peakMemory = computeMemoryBytes(state.gridData, state.memoryConfig).map(row => maxOf(row, 0))
+
+  if (values.json) {
+    process.stdout.write(JSON.stringify({ ...metrics, stepTime, peakMemoryBytes: peakMemory, violations: violations.length }, null, 2) + '\n')
+    return
+  }
+
+  const lines = [
+    `Makespan:      ${metrics.makespan}`,
+    `Step time:     ${stepTime}`,
+    `Microbatches:  ${metrics.numMicrobatches}`,
+    `Bubble ratio:  ${percent(metrics.bubbleRatio)} (theoretical ${percent(metrics.theoreticalBubbleRatio)})`,
+    `Phases:        warmup ${metrics.warmup}, steady ${metrics.steady}, cooldown ${metrics.cooldown}`,
+    `Violations:    ${violations.length}`,
+    '',
+    'GPU  Busy  Bubble  Util    Peak memory',
+    ...metrics.perGPU.map(gpu => [
+      String(gpu.gpuIdx).padEnd(4),
+      String(gpu.busyTime).padEnd(5),
+      String(gpu.bubbleTime).padEnd(7),
+      percent(gpu.utilization).padEnd(7),
+      formatGB(peakMemory[gpu.gpuIdx]),
+    ].join(' ')),
+  ]
+  process.stdout.write(lines.join('\n') + '\n')
+}
+
+try {
+  main(process.argv.slice(2))
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`)
+  if (error instanceof UsageError) process.stderr.write(`\n${USAGE}`)
+  process.exitCode = 1
+}
@@ -1,473 +1,899 @@
-import { useState, useCallback, useMemo, useRef } from 'react'
+import { useState, useCallback, useEffect, useId, useLayoutEffect, useMemo, useRef, createElement, memo } from 'react'
 import './App.css'
-import { type GridData, type PassType, createDefaultGrid, calculateBlankCount, getColorForBatch } from './utils'
+import {
+  type CommLatencies,
+  type GridData,
+  type PassType,
+  type PassDurations,
+  DEFAULT_COMM_LATENCIES,
+  DEFAULT_PASS_DURATIONS,
+  MAX_CHUNKS,
+  MAX_GPUS,
+  MAX_TIMESTEPS,
+  PASS_TYPES,
+  PASS_TYPE_LABELS,
+  chunkLetter,
+  createDefaultGrid,
+  formatCellLabel,
+  getOperationDuration,
+  getOperations,
+  gridUsesChunks,
+  isCellMicrobatch,
+  setOperation
+} from './utils'
+import {
+  type OrderedOp,
+  type ScheduleKind,
+  MAX_GENERATED_MICROBATCHES,
+  SCHEDULE_LABELS,
+  canInterleave,
+  extractOpOrder,
+  generateSchedule,
+  placeOpOrder
+} from './schedules'
+import { validateSchedule, groupViolationsByCell } from './validation'
+import { type GPUCommMetrics, computeCommOverlap } from './communication'
+import {
+  type ParallelConfig,
+  DEFAULT_PARALLEL_CONFIG,
+  MAX_PARALLEL_DEGREE,
+  computeSyncPhases,
+  computeStepTime
+} from './parallelism'
+import {
+  type MemoryConfig,
+  BYTES_PER_GB,
+  DEFAULT_MEMORY_CONFIG,
+  computeMemoryBytes,
+  countBatchesInMemory,
+  formatGB,
+  parseStageGB
+} from './memory'
+import { type ScheduleMetrics, computeMetrics } from './metrics'
+import { type MicrobatchPath, traceMicrobatch } from './latency'
+import {
+  type ScheduleState,
+  serializeSchedule,
+  parseSchedule,
+  encodeScheduleHash,
+  decodeScheduleHash
+} from './serialization'
+import { type TraceGPUKey, type TraceImportOptions, DEFAULT_TRACE_OPTIONS, importTrace } from './traceImport'
+import {
+  type CellPosition,
+  type CellRange,
+  type Selection,
+  selectionRange,
+  getOperationStart,
+  clearRange,
+  rangeToTSV,
+  pasteTSV,
+  fillRange,
+  shiftRange,
+  flipPassType,
+  cellStartsInRange,
+  formatOpOrder,
+  parseOpOrder
+} from './editing'
+import { useUndoable } from './useUndoable'
+import { PLAYBACK_SPEEDS, usePlayback } from './usePlayback'
+import { DEFAULT_NODE_BUDGET, parseStageDurations } from './scheduleSearch'
+import { useScheduleSearch } from './useScheduleSearch'
+import {
+  type Appearance,
+  type ColorScheme,
+  type FigureTheme,
+  type Hatch,
+  type OpStyle,
+  COLOR_SCHEME_LABELS,
+  DEFAULT_APPEARANCE,
+  getOpStyle
+} from './colors'
+import {
+  type Annotations,
+  DEFAULT_ANNOTATIONS,
+  MAX_ANNOTATION_LENGTH,
+  setCellNote,
+  stageLabel
+} from './annotations'
+import { type InjectedDelay, isWhatIfActive, parseSlowdowns, simulateWhatIf } from './whatIf'
+import {
+  type CostEstimate,
+  type CostReport,
+  type ModelConfig,
+  type Precision,
+  DEFAULT_MODEL_CONFIG,
+  MODEL_LIMITS,
+  PRECISION_LABELS,
+  applyStageCosts,
+  costMemoryConfig,
+  estimateStageCosts,
+  parseLayerSplit,
+  reportStepCost
+} from './costModel'
+import { type IterationConfig, type TiledSchedule, DEFAULT_ITERATION_CONFIG, MAX_ITERATIONS, tileIterations } from './iterations'
+import {
+  type CellChange,
+  type ComparisonRow,
+  CELL_CHANGE_COLORS,
+  alignGrids,
+  diffSchedules,
+  compareSchedules
+} from './compare'
+import {
+  type ExportFormat,
+  type ExportOptions,
+  type FigureBackground,
+  DEFAULT_EXPORT_OPTIONS,
+  EXPORT_FORMAT_LABELS,
+  rasterizeSVG,
+  generateTikZ
+} from './figureExport'
+import {
+  type FigureOptions,
+  type SVGNode,
+  DEFAULT_CELL_WIDTH,
+  cellAtPoint,
+  cellWidthToFit,
+  figureToSVG,
+  renderFigure,
+  rowLabelWidth
+} from './figure'
+import { paintFigure, paintOverview } from './figureCanvas'
+import { useScrollViewport } from './useScrollViewport'
 
-type FlowVisualizationProps = {
-  gridData: GridData
-  numGPUs: number
-  numTimesteps: number
-  svgRef?: React.RefObject<SVGSVGElement>
+// CSS gradients matching the figure's hatch patterns, drawn over an editor cell's fill
+const HATCH_GRADIENTS: Record<Hatch, (color: string) => string> = {
+  diagonal: color => `repeating-linear-gradient(45deg, ${color} 0 1.5px, transparent 1.5px 6px)`,
+  cross: color => `repeating-linear-gradient(45deg, ${color} 0 1.5px, transparent 1.5px 6px), `
+    + `repeating-linear-gradient(-45deg, ${color} 0 1.5px, transparent 1.5px 6px)`,
+  horizontal: color => `repeating-linear-gradient(0deg, ${color} 0 1.5px, transparent 1.5px 6px)`,
 }
 
-function FlowVisualization({ gridData, numGPUs, numTimesteps, svgRef }: FlowVisualizationProps) {
-  // Calculate memory usage for each GPU at each timestep
-  const memoryUsage = useMemo(() => {
-    const memory: number[][] = Array(numGPUs).fill(null).map(() => Array(numTimesteps).fill(0))
-    
-    // For each GPU, track which batches are currently in memory
-    for (let gpuIdx = 0; gpuIdx < numGPUs; gpuIdx++) {
-      const batchesInMemory = new Set<number>()
-      
-      for (let timeIdx = 0; timeIdx < numTimesteps; timeIdx++) {
-        const cell = gridData[gpuIdx][timeIdx]
-        
-        // Process events at this timestep
-        if (cell.value !== null && cell.passType) {
-          if (cell.passType === 'forward') {
-            // Forward pass: add batch to memory
-            batchesInMemory.add(cell.value)
-          } else if (cell.passType === 'backward') {
-            // Backward pass: remove batch from memory
-            batchesInMemory.delete(cell.value)
-          }
-        }
-        
-        // Record current memory usage at this timestep (after processing events)
-        memory[gpuIdx][timeIdx] = batchesInMemory.size
-      }
+/**
+ * Colors an editor cell or op chip the way the figure draws the operation
+ */
+function opStyleCSS(style: OpStyle): React.CSSProperties {
+  return {
+    backgroundColor: style.fill,
+    backgroundImage: style.hatch ? HATCH_GRADIENTS[style.hatch](style.hatchColor) : undefined,
+    color: style.text,
+  }
+}
+
+// SVG attribute names as React spells them, e.g. stroke-width as strokeWidth
+const reactAttributeName = (name: string) => name.replace(/-([a-z])/g, (_, letter: string) => letter.toUpperCase())
+
+function toReactElement(node: SVGNode | string): React.ReactNode {
+  if (typeof node === 'string') return node
+  const props = Object.fromEntries(Object.entries(node.attrs).map(([name, value]) =>
+    [name === 'class' ? 'className' : reactAttributeName(name), value]
+  ))
+  return createElement(node.tag, props, ...node.children.map(toReactElement))
+}
+
+// React's ids are wrapped in colons, which are best kept out of url(#id) references
+const useFigureIdPrefix = () => `figure${useId().replace(/:/g, '')}`
+
+/**
+ * Renders the schedule figure from the framework-agnostic layout in figure.ts
+ */
+function FlowVisualization(options: FigureOptions) {
+  const { root } = renderFigure({ ...options, idPrefix: useFigureIdPrefix() })
+  return toReactElement({ ...root, attrs: { ...root.attrs, class: 'flow-svg' } })
+}
+
+// Browsers refuse longer URLs; schedules that don't fit are shared as files instead
+const MAX_LINK_LENGTH = 2_000_000
+
+// Editor grid geometry, matching App.css; rows include their bottom border
+const GRID_LABEL_WIDTH = 60
+const GRID_HEADER_HEIGHT = 29
+const GRID_CELL_WIDTH = 38
+const GRID_ROW_HEIGHT = 33
+// The grid re-renders once the view scrolls this far, with this many cells drawn past each edge
+const GRID_SCROLL_STEP = 4 * GRID_CELL_WIDTH
+const GRID_OVERSCAN = 4
+
+type FigureRenderer = 'auto' | 'svg' | 'canvas'
+
+// Above this many operations the automatic renderer paints to a canvas rather than building SVG
+const CANVAS_OPERATION_THRESHOLD = 2000
+// Zoom limits as the width of a timestep in pixels
+const MIN_CELL_WIDTH = 0.5
+const MAX_CELL_WIDTH = 2 * DEFAULT_CELL_WIDTH
+const ZOOM_FACTOR = 1.5
+// The figure is laid out again once the view scrolls this far, with this much drawn past each edge
+const SCROLL_STEP = 200
+const OVERSCAN = 400
+const MINIMAP_HEIGHT = 40
+// Pointer travel that turns a press into a drag rather than a click
+const DRAG_THRESHOLD = 4
+
+type FigureViewerProps = Omit<FigureOptions, 'cellWidth' | 'visibleRange'> & {
+  // The cell under the pointer changed; null once it leaves the schedule
+  onHoverCell?: (cell: CellPosition | null, clientX: number, clientY: number) => void
+  onCellClick?: (cell: CellPosition | null) => void
+}
+
+/**
+ * The schedule figure with zoom, pan and a minimap. Ctrl or ⌘ plus the wheel zooms around the
+ * pointer and dragging pans. Only the part in view is laid out, and large schedules are painted
+ * to a canvas, so schedules with thousands of timesteps stay responsive.
+ */
+const FigureViewer = memo(function FigureViewer({ onHoverCell, onCellClick, ...options }: FigureViewerProps) {
+  const { element, viewport, ref } = useScrollViewport(SCROLL_STEP)
+  // Width of a timestep, or null to fit the figure to the view
+  const [zoom, setZoom] = useState<number | null>(null)
+  const [renderer, setRenderer] = useState<FigureRenderer>('auto')
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const minimapRef = useRef<HTMLCanvasElement>(null)
+  // Timestep to keep under the given x offset in the view once a zoom has been laid out
+  const zoomAnchor = useRef<{ timestep: number; offsetX: number } | null>(null)
+  const drag = useRef<{ x: number; y: number; left: number; top: number; moved: boolean } | null>(null)
+  const spaceRef = useRef<HTMLDivElement>(null)
+  const hoveredKey = useRef<string | null>(null)
+  const idPrefix = useFigureIdPrefix()
+
+  const numOperations = useMemo(() => getOperations(options.gridData).length, [options.gridData])
+  const useCanvas = renderer === 'canvas' || (renderer === 'auto' && numOperations > CANVAS_OPERATION_THRESHOLD)
+  const labelWidth = rowLabelWidth(options.annotations)
+  const fitWidth = Math.max(MIN_CELL_WIDTH, Math.min(DEFAULT_CELL_WIDTH, cellWidthToFit(options, viewport.width)))
+  const cellWidth = zoom ?? fitWidth
+  const visibleRange = {
+    timeStart: Math.floor((viewport.left - OVERSCAN - labelWidth) / cellWidth),
+    timeEnd: Math.ceil((viewport.left + viewport.width + SCROLL_STEP + OVERSCAN - labelWidth) / cellWidth),
+  }
+  const figure = renderFigure({ ...options, cellWidth, visibleRange, idPrefix })
+  const numTimesteps = options.gridData[0]?.length ?? 0
+  const showMinimap = figure.width > viewport.width
+
+  const paintCanvas = useCallback(() => {
+    const canvas = canvasRef.current
+    const context = canvas?.getContext('2d')
+    if (!element || !canvas || !context) return
+    const ratio = window.devicePixelRatio || 1
+    const width = Math.min(element.clientWidth, figure.width)
+    const height = Math.min(element.clientHeight, figure.height)
+    if (canvas.width !== Math.round(width * ratio) || canvas.height !== Math.round(height * ratio)) {
+      canvas.width = Math.round(width * ratio)
+      canvas.height = Math.round(height * ratio)
+      canvas.style.width = `${width}px`
+      canvas.style.height = `${height}px`
     }
-    
-    return memory
-  }, [gridData, numGPUs, numTimesteps])
-
-  // Collect all cells with their positions
-  const allCells: Array<{ value: number; timeIdx: number; gpuIdx: number; passType: PassType }> = []
-  
-  gridData.forEach((row, gpuIdx) => {
-    row.forEach((cell, timeIdx) => {
-      if (cell.value !== null && cell.passType) {
-        allCells.push({
-          value: cell.value,
-          timeIdx,
-          gpuIdx,
-          passType: cell.passType
-        })
-      }
-    })
-  })
+    context.setTransform(ratio, 0, 0, ratio, 0, 0)
+    context.clearRect(0, 0, width, height)
+    context.translate(-element.scrollLeft, -element.scrollTop)
+    paintFigure(context, figure)
+  }, [element, figure])
+
+  // Keep the zoom anchor in place once the new width is laid out
+  useLayoutEffect(() => {
+    if (!element || !zoomAnchor.current) return
+    element.scrollLeft = labelWidth + zoomAnchor.current.timestep * cellWidth - zoomAnchor.current.offsetX
+    zoomAnchor.current = null
+  }, [element, cellWidth, labelWidth])
 
-  // Group cells by value
-  const valueGroups: { [key: number]: Array<{ timeIdx: number; gpuIdx: number; passType: PassType }> } = {}
-  allCells.forEach(cell => {
-    if (!valueGroups[cell.value]) {
-      valueGroups[cell.value] = []
+  // The canvas follows every scroll event, between the coarser layout updates
+  useLayoutEffect(() => {
+    if (!useCanvas || !element) return
+    paintCanvas()
+    let frame = 0
+    const handleScroll = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(paintCanvas)
     }
-    valueGroups[cell.value].push(cell)
-  })
+    element.addEventListener('scroll', handleScroll, { passive: true })
+    return () => {
+      cancelAnimationFrame(frame)
+      element.removeEventListener('scroll', handleScroll)
+    }
+  }, [useCanvas, element, paintCanvas])
 
-  // Get all unique batch values to create markers for each
-  const uniqueBatches = useMemo(() => {
-    const batches = new Set<number>()
-    allCells.forEach(cell => batches.add(cell.value))
-    return Array.from(batches)
-  }, [allCells])
-
-  // Calculate dimensions - matching top grid
-  const cellWidth = 38 // Match grid-cell width exactly
-  const rowSpacing = 30 // Match border-bottom spacing
-  const headerHeight = 28 // Match header-cell height
-  const headerRowGap = 25 // Space between header and first GPU row (for memory chart)
-  const rowLabelWidth = 60 // Match row-label width
-  const startX = rowLabelWidth // Start right after the label, matching top grid
-  const svgWidth = numTimesteps * cellWidth + rowLabelWidth
-  const rowHeight = 32 // Match grid-cell height exactly
-  const svgHeight = headerHeight + headerRowGap + numGPUs * (rowHeight + rowSpacing) - rowSpacing
-
-  // Generate edges - connect nodes with same value in sequence
-  const edges: Array<{
-    x1: number
-    y1: number
-    x2: number
-    y2: number
-    passType: PassType
-    value: number
-  }> = []
-
-  Object.entries(valueGroups).forEach(([value, positions]) => {
-    if (positions.length < 2) return
-    
-    // Sort by timestep, then by GPU
-    const sorted = positions.sort((a, b) => {
-      if (a.timeIdx !== b.timeIdx) return a.timeIdx - b.timeIdx
-      return a.gpuIdx - b.gpuIdx
-    })
-    
-    // Connect consecutive nodes
-    for (let i = 0; i < sorted.length - 1; i++) {
-      const from = sorted[i]
-      const to = sorted[i + 1]
-      
-      const rowY = headerHeight + headerRowGap + from.gpuIdx * (rowHeight + rowSpacing) + rowHeight / 2
-      const nextRowY = headerHeight + headerRowGap + to.gpuIdx * (rowHeight + rowSpacing) + rowHeight / 2
-      
-      edges.push({
-        x1: startX + from.timeIdx * cellWidth + cellWidth / 2,
-        y1: rowY,
-        x2: startX + to.timeIdx * cellWidth + cellWidth / 2,
-        y2: nextRowY,
-        passType: from.passType,
-        value: Number(value)
-      })
+  const zoomTo = useCallback((newCellWidth: number | null, offsetX: number) => {
+    if (!element) return
+    const target = newCellWidth === null ? null : Math.max(MIN_CELL_WIDTH, Math.min(MAX_CELL_WIDTH, newCellWidth))
+    zoomAnchor.current = { timestep: (element.scrollLeft + offsetX - labelWidth) / cellWidth, offsetX }
+    setZoom(target)
+  }, [element, cellWidth, labelWidth])
+
+  // Wheel zooming has to cancel the page scroll, which React's passive wheel handlers cannot
+  useEffect(() => {
+    if (!element) return
+    const handleWheel = (event: WheelEvent) => {
+      if (!event.ctrlKey && !event.metaKey) return
+      event.preventDefault()
+      const factor = event.deltaY < 0 ? ZOOM_FACTOR : 1 / ZOOM_FACTOR
+      zoomTo(cellWidth * factor, event.clientX - element.getBoundingClientRect().left)
     }
-  })
+    element.addEventListener('wheel', handleWheel, { passive: false })
+    return () => element.removeEventListener('wheel', handleWheel)
+  }, [element, cellWidth, zoomTo])
+
+  useEffect(() => {
+    const context = minimapRef.current?.getContext('2d')
+    if (context) paintOverview(context, options.gridData, options.colorScheme ?? DEFAULT_APPEARANCE.colorScheme)
+  }, [showMinimap, viewport.width, options.gridData, options.colorScheme])
+
+  const cellAtPointer = (event: React.PointerEvent) => {
+    const bounds = spaceRef.current?.getBoundingClientRect()
+    return bounds ? cellAtPoint({ ...options, cellWidth }, event.clientX - bounds.left, event.clientY - bounds.top) : null
+  }
+
+  const hoverCell = (cell: CellPosition | null, event: React.PointerEvent) => {
+    const key = cell && `${cell.gpuIdx}-${cell.timeIdx}`
+    if (key === hoveredKey.current) return
+    hoveredKey.current = key
+    onHoverCell?.(cell, event.clientX, event.clientY)
+  }
+
+  const handlePointerDown = (event: React.PointerEvent) => {
+    // Presses on the scrollbars land on the viewport itself and scroll it already
+    if (!element || event.button !== 0 || event.target === event.currentTarget) return
+    drag.current = { x: event.clientX, y: event.clientY, left: element.scrollLeft, top: element.scrollTop, moved: false }
+    event.currentTarget.setPointerCapture(event.pointerId)
+  }
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    if (!element) return
+    if (!drag.current) {
+      hoverCell(cellAtPointer(event), event)
+      return
+    }
+    const dx = event.clientX - drag.current.x
+    const dy = event.clientY - drag.current.y
+    if (Math.abs(dx) + Math.abs(dy) > DRAG_THRESHOLD) drag.current.moved = true
+    element.scrollLeft = drag.current.left - dx
+    element.scrollTop = drag.current.top - dy
+  }
+
+  const handlePointerUp = (event: React.PointerEvent) => {
+    if (drag.current && !drag.current.moved) onCellClick?.(cellAtPointer(event))
+    drag.current = null
+  }
 
-  // Ensure minimum dimensions for display
-  const calculatedHeight = headerHeight + headerRowGap + numGPUs * (rowHeight + rowSpacing) - rowSpacing
-  const minHeight = Math.max(svgHeight, calculatedHeight || 200)
+  // Centers the view on the timestep under the pointer
+  const handleMinimapPointer = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!element || (event.type === 'pointermove' && event.buttons !== 1)) return
+    if (event.type === 'pointerdown') event.currentTarget.setPointerCapture(event.pointerId)
+    const bounds = event.currentTarget.getBoundingClientRect()
+    const timestep = (event.clientX - bounds.left) / bounds.width * numTimesteps
+    element.scrollLeft = labelWidth + timestep * cellWidth - element.clientWidth / 2
+  }
+
+  const windowStart = (viewport.left - labelWidth) / cellWidth
+  const windowLength = viewport.width / cellWidth
 
   return (
-    <svg 
-      ref={svgRef}
-      className="flow-svg" 
-      viewBox={`0 0 ${svgWidth} ${svgHeight}`}
-      width={svgWidth}
-      height={minHeight}
-      preserveAspectRatio="xMinYMin meet"
-    >
-      {/* Background */}
-      <rect x="0" y="0" width={svgWidth} height={svgHeight} fill="#242424" />
-      
-      {/* Header background */}
-      <rect 
-        x="0" 
-        y="0" 
-        width={svgWidth} 
-        height={headerHeight} 
-        fill="rgba(255, 255, 255, 0.15)" 
-      />
-      <line
-        x1="0"
-        y1={headerHeight}
-        x2={svgWidth}
-        y2={headerHeight}
-        stroke="#d3d3d3"
-        strokeWidth="1"
-      />
-      
-      <line
-        x1={rowLabelWidth}
-        y1="0"
-        x2={rowLabelWidth}
-        y2={headerHeight}
-        stroke="#d3d3d3"
-        strokeWidth="1"
-      />
-      
-      {/* Timestep labels header */}
-      {Array(numTimesteps).fill(0).map((_, timeIdx) => (
-        <g key={`time-label-${timeIdx}`}>
-          <text
-            x={startX + timeIdx * cellWidth + cellWidth / 2}
-            y={headerHeight - 6}
-            fill="#ffffff"
-            fontSize="9.6"
-            fontWeight="600"
-            fontFamily="sans-serif"
-            textAnchor="middle"
-          >
-            t{timeIdx}
-          </text>
-        </g>
-      ))}
-      
-      {/* GPU row backgrounds and grid lines */}
-      {gridData.map((_, gpuIdx) => {
-        const rowY = headerHeight + headerRowGap + gpuIdx * (rowHeight + rowSpacing)
-        
-        return (
-          <g key={`row-${gpuIdx}`}>
-            {/* White row background - exactly 32px tall */}
-            <rect
-              x={rowLabelWidth}
-              y={rowY}
-              width={svgWidth - rowLabelWidth}
-              height={rowHeight}
-              fill="white"
-              stroke="#e0e0e0"
-              strokeWidth="2"
-            />
-            
-            {/* Vertical grid lines - align with cell boundaries */}
-            {Array(numTimesteps + 1).fill(0).map((_, timeIdx) => {
-              const lineX = startX + timeIdx * cellWidth
-              return (
-                <line
-                  key={`vline-${timeIdx}`}
-                  x1={lineX}
-                  y1={rowY}
-                  x2={lineX}
-                  y2={rowY + rowHeight}
-                  stroke="#d3d3d3"
-                  strokeWidth="1"
-                />
-              )
-            })}
-            
-            
-            {/* Bottom border */}
-            <line
-              x1={rowLabelWidth}
-              y1={rowY + rowHeight}
-              x2={svgWidth}
-              y2={rowY + rowHeight}
-              stroke="#d3d3d3"
-              strokeWidth="1"
-            />
-          </g>
-        )
-      })}
-      
-      <defs>
-        {uniqueBatches.map(batch => (
-          <g key={`markers-batch-${batch}`}>
-            <marker
-              id={`arrowhead-forward-${batch}`}
-              markerWidth="10"
-              markerHeight="10"
-              refX="9"
-              refY="3"
-              orient="auto"
-            >
-              <polygon points="0 0, 10 3, 0 6" fill={getColorForBatch(batch, 'forward')} />
-            </marker>
-            <marker
-              id={`arrowhead-backward-${batch}`}
-              markerWidth="10"
-              markerHeight="10"
-              refX="9"
-              refY="3"
-              orient="auto"
-            >
-              <polygon points="0 0, 10 3, 0 6" fill={getColorForBatch(batch, 'backward')} />
-            </marker>
-          </g>
-        ))}
-        <marker
-          id="arrowhead-memory"
-          markerWidth="5"
-          markerHeight="5"
-          refX="4.5"
-          refY="2.5"
-          orient="auto"
+    <div className="figure-viewer">
+      <div className="figure-toolbar">
+        <button type="button" className="download-button" onClick={() => zoomTo(cellWidth / ZOOM_FACTOR, viewport.width / 2)} title="Zoom out (Ctrl+wheel)">
+          −
+        </button>
+        <button type="button" className="download-button" onClick={() => zoomTo(cellWidth * ZOOM_FACTOR, viewport.width / 2)} title="Zoom in (Ctrl+wheel)">
+          +
+        </button>
+        <button type="button" className="download-button" onClick={() => zoomTo(null, 0)} disabled={zoom === null}>
+          Fit
+        </button>
+        <span className="selection-label">{cellWidth < 10 ? cellWidth.toFixed(1) : Math.round(cellWidth)} px per timestep</span>
+        <select
+          aria-label="Renderer"
+          value={renderer}
+          title="Canvas draws large schedules faster but has no hover tooltips"
+          onChange={(e) => setRenderer(e.target.value as FigureRenderer)}
         >
-          <polygon points="0 0, 5 2.5, 0 5" fill="rgba(255, 255, 255, 0.7)" />
-        </marker>
-      </defs>
-
-      {/* Draw edges first (so they appear behind nodes) */}
-      {edges.map((edge, idx) => (
-        <line
-          key={`edge-${edge.value}-${idx}`}
-          x1={edge.x1}
-          y1={edge.y1}
-          x2={edge.x2}
-          y2={edge.y2}
-          stroke={getColorForBatch(edge.value, edge.passType)}
-          strokeWidth="2"
-          strokeOpacity="0.6"
-          markerEnd={`url(#arrowhead-${edge.passType}-${edge.value})`}
-        />
-      ))}
-
-      {/* Memory label - positioned above first GPU label */}
-      <text
-        x={rowLabelWidth / 2}
-        y={headerHeight + headerRowGap / 2}
-        fill="#ffffff"
-        fontSize="9.6"
-        fontWeight="600"
-        fontFamily="sans-serif"
-        textAnchor="middle"
-        dominantBaseline="middle"
-        opacity="0.8"
-      >
-        Memory
-      </text>
-      
-      {/* Arrow from Memory label to first memory area chart */}
-      {memoryUsage[0] && Math.max(...memoryUsage[0]) > 0 && (
-        <line
-          x1={rowLabelWidth / 2 + 20}
-          y1={headerHeight + headerRowGap / 2}
-          x2={startX + cellWidth / 2}
-          y2={headerHeight + headerRowGap - 12}
-          stroke="rgba(255, 255, 255, 0.5)"
-          strokeWidth="1.5"
-          markerEnd="url(#arrowhead-memory)"
-        />
+          <option value="auto">Auto ({useCanvas ? 'canvas' : 'SVG'})</option>
+          <option value="svg">SVG</option>
+          <option value="canvas">Canvas</option>
+        </select>
+      </div>
+      {showMinimap && (
+        <div className="minimap">
+          <canvas
+            ref={minimapRef}
+            width={viewport.width}
+            height={MINIMAP_HEIGHT}
+            onPointerDown={handleMinimapPointer}
+            onPointerMove={handleMinimapPointer}
+          />
+          <div
+            className="minimap-window"
+            style={{
+              left: `${Math.max(0, windowStart / numTimesteps) * 100}%`,
+              width: `${Math.min(1, windowLength / numTimesteps) * 100}%`,
+            }}
+          />
+        </div>
       )}
+      <div
+        ref={ref}
+        className="figure-viewport"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { drag.current = null }}
+        onPointerLeave={(e) => hoverCell(null, e)}
+      >
+        <div ref={spaceRef} className="figure-space" style={{ width: figure.width, height: figure.height }}>
+          {useCanvas
+            ? <canvas ref={canvasRef} className="figure-canvas" />
+            : toReactElement({ ...figure.root, attrs: { ...figure.root.attrs, class: 'flow-svg' } })}
+        </div>
+      </div>
+    </div>
+  )
+})
+
+/**
+ * Saves the given contents as a file through a temporary download link
+ */
+function downloadFile(contents: BlobPart, filename: string, type: string) {
+  const blob = new Blob([contents], { type })
+  const url = URL.createObjectURL(blob)
+
+  const downloadLink = document.createElement('a')
+  downloadLink.href = url
+  downloadLink.download = filename
+  document.body.appendChild(downloadLink)
+  downloadLink.click()
+  document.body.removeChild(downloadLink)
+
+  URL.revokeObjectURL(url)
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error)
+
+/**
+ * Reads the schedule a shared link carries in its hash, if any
+ */
+function readLinkedSchedule(): { state: ScheduleState | null; error: string | null } {
+  try {
+    return { state: decodeScheduleHash(window.location.hash), error: null }
+  } catch (error) {
+    return { state: null, error: `Could not open the linked schedule: ${errorMessage(error)}` }
+  }
+}
+
+/**
+ * Where one microbatch's time went between its first forward and its last backward, and which
+ * stage kept it waiting longest
+ */
+function MicrobatchPathPanel({ path }: { path: MicrobatchPath }) {
+  const longestWait = Math.max(...path.stages.map(stage => stage.waitTime))
+
+  return (
+    <div className="metrics-panel">
+      <table className="metrics-table">
+        <tbody>
+          <tr><th>Runs</th><td>{path.start}–{path.end}</td></tr>
+          <tr><th title="From the first forward starting to the first stage's backward finishing">Latency</th><td>{path.latency}</td></tr>
+          <tr><th>Computing</th><td>{path.computeTime}</td></tr>
+          <tr><th>In transit</th><td>{path.transferTime}</td></tr>
+          <tr><th title="Ready, but its GPU was busy with other work or a pass was missing">Waiting</th><td>{path.waitTime}</td></tr>
+        </tbody>
+      </table>
+      <table className="metrics-table">
+        <thead>
+          <tr><th>Stage</th><th>GPU</th><th>Busy</th><th title="Timesteps its input sat ready before it ran">Waiting</th></tr>
+        </thead>
+        <tbody>
+          {path.stages.map(stage => (
+            <tr key={stage.stage}>
+              <th>{stage.stage}</th>
+              <td>{stage.gpuIdx}</td>
+              <td>{stage.busyTime}</td>
+              <td className={longestWait > 0 && stage.waitTime === longestWait ? 'delta-worse' : ''}>{stage.waitTime}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+type MetricsPanelProps = {
+  metrics: ScheduleMetrics
+  commOverlap: GPUCommMetrics[]
+  // Makespan plus the gradient sync and optimizer tail, when there is one
+  stepTime: number | null
+}
+
+function MetricsPanel({ metrics, commOverlap, stepTime }: MetricsPanelProps) {
+  const hasComm = commOverlap.some(gpu => gpu.commTime > 0)
+
+  const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(1)}%`
+
+  return (
+    <div className="metrics-panel">
+      <table className="metrics-table">
+        <tbody>
+          <tr><th>Makespan</th><td>{metrics.makespan}</td></tr>
+          {stepTime !== null && (
+            <tr><th title="Including the gradient all-reduce and optimizer step">Step time</th><td>{stepTime}</td></tr>
+          )}
+          <tr><th>Bubble ratio</th><td>{formatPercent(metrics.bubbleRatio)}</td></tr>
+          <tr>
+            <th title="(p - 1) / (m + p - 1)">Theoretical</th>
+            <td>{formatPercent(metrics.theoreticalBubbleRatio)}</td>
+          </tr>
+          <tr><th>Warmup</th><td>{metrics.warmup}</td></tr>
+          <tr><th>Steady</th><td>{metrics.steady}</td></tr>
+          <tr><th>Cooldown</th><td>{metrics.cooldown}</td></tr>
+        </tbody>
+      </table>
+      <table className="metrics-table">
+        <thead>
+          <tr>
+            <th>GPU</th><th>Busy</th><th>Bubble</th><th>Util.</th>
+            {hasComm && <th title="Timesteps of incoming sends">Comm</th>}
+            {hasComm && <th title="Share of incoming sends that overlap this GPU's compute">Hidden</th>}
+          </tr>
+        </thead>
+        <tbody>
+          {metrics.perGPU.map(gpu => (
+            <tr key={gpu.gpuIdx}>
+              <th>{gpu.gpuIdx}</th>
+              <td>{gpu.busyTime}</td>
+              <td>{gpu.bubbleTime}</td>
+              <td>{formatPercent(gpu.utilization)}</td>
+              {hasComm && <td>{commOverlap[gpu.gpuIdx].commTime}</td>}
+              {hasComm && (
+                <td>
+                  {commOverlap[gpu.gpuIdx].commTime > 0
+                    ? formatPercent(commOverlap[gpu.gpuIdx].hiddenTime / commOverlap[gpu.gpuIdx].commTime)
+                    : '–'}
+                </td>
+              )}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+/**
+ * Steady-state throughput of the repeated schedule and the memory each GPU carries between iterations
+ */
+function IterationsPanel({ tiled }: { tiled: TiledSchedule }) {
+  const formatRate = (rate: number) => rate.toFixed(3)
+
+  return (
+    <div className="metrics-panel">
+      <table className="metrics-table">
+        <tbody>
+          <tr><th title="Timesteps between the ends of consecutive iterations">Period</th><td>{Number(tiled.period.toFixed(2))}</td></tr>
+          <tr><th title="Microbatches finished per timestep">Throughput</th><td>{formatRate(tiled.throughput)}</td></tr>
+          <tr><th title="With every iteration run on its own">Isolated</th><td>{formatRate(tiled.isolatedThroughput)}</td></tr>
+          <tr><th>Steady util.</th><td>{(tiled.steadyUtilization * 100).toFixed(1)}%</td></tr>
+        </tbody>
+      </table>
+      <table className="metrics-table">
+        <thead>
+          <tr>
+            <th>GPU</th>
+            <th title="Activations still held from earlier iterations as a later one starts">Carried</th>
+            <th>Peak</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tiled.carriedBytes.map((bytes, gpuIdx) => (
+            <tr key={gpuIdx}>
+              <th>{gpuIdx}</th>
+              <td>{formatGB(bytes)}</td>
+              <td>{formatGB(tiled.peakBytes[gpuIdx])}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+const formatSeconds = (seconds: number) => seconds < 1 ? `${(seconds * 1000).toFixed(1)} ms` : `${seconds.toFixed(2)} s`
+
+/**
+ * What the model config works out to: wall-clock step time and MFU of the current schedule, and
+ * each stage's durations and memory
+ */
+function CostModelPanel({ estimate, report }: { estimate: CostEstimate; report: CostReport }) {
+  return (
+    <div className="metrics-panel">
+      <table className="metrics-table">
+        <tbody>
+          <tr><th>Timestep</th><td>{formatSeconds(estimate.timestepSeconds)}</td></tr>
+          <tr><th title="Makespan, or step time with gradient sync, in seconds">Step time</th><td>{formatSeconds(report.stepSeconds)}</td></tr>
+          <tr><th title="Model FLOPs utilization, recompute excluded">MFU</th><td>{(report.mfu * 100).toFixed(1)}%</td></tr>
+          <tr><th title="Per pipeline replica">Tokens/s</th><td>{Math.round(report.tokensPerSecond).toLocaleString()}</td></tr>
+        </tbody>
+      </table>
+      <table className="metrics-table">
+        <thead>
+          <tr>
+            <th>GPU</th><th>Layers</th><th title="Forward timesteps">F</th><th title="Backward timesteps">B</th>
+            <th title="Weights and gradients">Weights</th><th>Optimizer</th><th title="Per microbatch">Act.</th>
+          </tr>
+        </thead>
+        <tbody>
+          {estimate.stages.map((stage, gpuIdx) => (
+            <tr key={gpuIdx}>
+              <th>{gpuIdx}</th>
+              <td>{stage.layers}</td>
+              <td title={`${(stage.forwardFLOPs / 1e12).toFixed(1)} TFLOP`}>{stage.forwardTimesteps}</td>
+              <td title={`${(stage.backwardFLOPs / 1e12).toFixed(1)} TFLOP`}>{stage.backwardTimesteps}</td>
+              <td>{formatGB(stage.weightBytes)}</td>
+              <td>{formatGB(stage.optimizerBytes)}</td>
+              <td>{formatGB(stage.activationBytes)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+type ExportDialogProps = Omit<FigureOptions, 'background' | 'showMemory'> & {
+  options: ExportOptions
+  onOptionsChange: (options: ExportOptions) => void
+  onClose: () => void
+}
 
-      {/* GPU row labels */}
-      {gridData.map((_, gpuIdx) => {
-        const rowY = headerHeight + headerRowGap + gpuIdx * (rowHeight + rowSpacing)
-        const rowCenterY = rowY + rowHeight / 2
-        
-        return (
-          <g key={`gpu-label-${gpuIdx}`}>
-            {/* GPU label background */}
-            <rect
-              x="0"
-              y={rowY}
-              width={rowLabelWidth}
-              height={rowHeight}
-              fill="rgba(255, 255, 255, 0.1)"
+/**
+ * Previews the main figure as the page shows it, whether the edited schedule, a what-if, tiled
+ * iterations or the current side of a comparison, with the chosen export options and downloads it
+ * as SVG, PNG or TikZ
+ */
+function ExportDialog({ options, onOptionsChange, onClose, ...figure }: ExportDialogProps) {
+  const [exportError, setExportError] = useState<string | null>(null)
+
+  const handleExport = async () => {
+    try {
+      if (options.format === 'tikz') {
+        const tikz = generateTikZ(figure.gridData, {
+          ...options,
+          memoryConfig: figure.memoryConfig,
+          latencies: figure.latencies ?? DEFAULT_COMM_LATENCIES,
+          colorScheme: figure.colorScheme ?? DEFAULT_APPEARANCE.colorScheme,
+          annotations: figure.annotations
+        })
+        downloadFile(tikz, 'gpu-visualization.tex', 'application/x-tex')
+      } else {
+        const rendered = renderFigure({ ...figure, background: options.background, showMemory: options.includeMemory })
+        const svgData = figureToSVG(rendered, options.scale)
+        if (options.format === 'svg') {
+          downloadFile(svgData, 'gpu-visualization.svg', 'image/svg+xml;charset=utf-8')
+        } else {
+          const png = await rasterizeSVG(svgData, rendered.width * options.scale, rendered.height * options.scale)
+          downloadFile(png, 'gpu-visualization.png', 'image/png')
+        }
+      }
+      onClose()
+    } catch (error) {
+      setExportError(`Could not export the figure: ${errorMessage(error)}`)
+    }
+  }
+
+  return (
+    <div className="dialog-backdrop" onClick={onClose} onKeyDown={(e) => e.key === 'Escape' && onClose()}>
+      <div className="dialog" role="dialog" aria-label="Export figure" onClick={(e) => e.stopPropagation()}>
+        <h2>Export figure</h2>
+        <div className="input-controls">
+          <div className="control-group">
+            <label htmlFor="export-format">Format:</label>
+            <select
+              id="export-format"
+              value={options.format}
+              onChange={(e) => onOptionsChange({ ...options, format: e.target.value as ExportFormat })}
+            >
+              {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map(format => (
+                <option key={format} value={format}>{EXPORT_FORMAT_LABELS[format]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="control-group">
+            <label htmlFor="export-background">Background:</label>
+            <select
+              id="export-background"
+              value={options.background}
+              onChange={(e) => onOptionsChange({ ...options, background: e.target.value as FigureBackground })}
+            >
+              <option value="white">White</option>
+              <option value="transparent">Transparent</option>
+              <option value="dark">Dark</option>
+            </select>
+          </div>
+          <div className="control-group">
+            <label htmlFor="export-scale">Scale:</label>
+            <input
+              id="export-scale"
+              type="number"
+              min="0.5"
+              max="8"
+              step="0.5"
+              value={options.scale}
+              onChange={(e) => onOptionsChange({ ...options, scale: Math.max(0.5, Math.min(8, parseFloat(e.target.value) || 1)) })}
             />
-            <line
-              x1={rowLabelWidth}
-              y1={rowY}
-              x2={rowLabelWidth}
-              y2={rowY + rowHeight}
-              stroke="#d3d3d3"
-              strokeWidth="1"
+          </div>
+          <div className="control-group">
+            <label htmlFor="export-memory">Memory charts:</label>
+            <input
+              id="export-memory"
+              type="checkbox"
+              checked={options.includeMemory}
+              onChange={(e) => onOptionsChange({ ...options, includeMemory: e.target.checked })}
             />
-            {/* GPU label text */}
-            <text
-              x={rowLabelWidth / 2}
-              y={rowCenterY}
-              fill="#ffffff"
-              fontSize="12.8"
-              fontWeight="600"
-              fontFamily="sans-serif"
-              textAnchor="middle"
-              dominantBaseline="middle"
-            >
-              GPU {gpuIdx}
-            </text>
-          </g>
-        )
-      })}
-
-      {/* Draw nodes */}
-      {gridData.map((row, gpuIdx) => {
-        const rowY = headerHeight + headerRowGap + gpuIdx * (rowHeight + rowSpacing)
-        const rowCenterY = rowY + rowHeight / 2
-        
-        return (
-          <g key={`gpu-${gpuIdx}`}>
-            
-            {/* Nodes for each filled cell */}
-            {row.map((cell, timeIdx) => {
-              if (cell.value === null) return null
-              
-              // Center the node in the cell (cell is 38px wide, node is 30px wide)
-              const x = startX + timeIdx * cellWidth + cellWidth / 2
-              const y = rowCenterY
-              
-              return (
-                <g key={`node-${gpuIdx}-${timeIdx}`}>
-                <rect
-                  x={x - cellWidth / 2}
-                  y={y - rowHeight / 2}
-                  width={cellWidth}
-                  height={rowHeight}
-                  fill={getColorForBatch(cell.value, cell.passType)}
-                  stroke="white"
-                  strokeWidth="1"
-                />
-                  <text
-                    x={x}
-                    y={y}
-                    fill="#ffffff"
-                    fontSize="12"
-                    fontWeight="600"
-                    fontFamily="sans-serif"
-                    textAnchor="middle"
-                    dominantBaseline="middle"
-                    style={{ fill: '#ffffff' }}
-                  >
-                    {cell.value}
-                  </text>
-                </g>
-              )
-            })}
-          </g>
-        )
-      })}
-
-      {/* Memory area plots - rendered above each GPU row with curves */}
-      {gridData.map((_, gpuIdx) => {
-        const rowY = headerHeight + headerRowGap + gpuIdx * (rowHeight + rowSpacing)
-        const maxMemory = Math.max(...memoryUsage[gpuIdx], 1)
-        
-        if (maxMemory === 0) return null
-        
-        // Position area plot above the row
-        // Use a fixed height for the area plot (20px) positioned just above the row
-        const areaHeight = 20
-        const areaBottom = rowY - 2 // Bottom of area plot (2px above row)
-        
-        // Build path for area chart with smooth curves
-        const pathSegments: string[] = []
-        
-        // Start at bottom-left
-        const firstMemory = memoryUsage[gpuIdx][0]
-        const firstMemoryY = areaBottom - (firstMemory / maxMemory) * areaHeight
-        pathSegments.push(`M ${startX} ${areaBottom}`)
-        pathSegments.push(`L ${startX} ${firstMemoryY}`)
-        
-        // For each timestep, draw with smooth curves at cell boundaries
-        for (let timeIdx = 0; timeIdx < numTimesteps; timeIdx++) {
-          const memory = memoryUsage[gpuIdx][timeIdx]
-          const cellEndX = startX + (timeIdx + 1) * cellWidth
-          const memoryY = areaBottom - (memory / maxMemory) * areaHeight
-          
-          if (timeIdx < numTimesteps - 1) {
-            const nextMemory = memoryUsage[gpuIdx][timeIdx + 1]
-            const nextMemoryY = areaBottom - (nextMemory / maxMemory) * areaHeight
-            
-            // Draw horizontal line most of the way across the cell
-            const curveStartX = cellEndX - cellWidth * 0.15 // Start curve 15% before cell end
-            pathSegments.push(`L ${curveStartX} ${memoryY}`)
-            
-            // Use cubic bezier for smooth S-curve transition
-            // Control points create a smooth transition
-            const control1X = cellEndX - cellWidth * 0.05
-            const control1Y = memoryY
-            const control2X = cellEndX + cellWidth * 0.05
-            const control2Y = nextMemoryY
-            
-            pathSegments.push(`C ${control1X} ${control1Y} ${control2X} ${control2Y} ${cellEndX + cellWidth * 0.15} ${nextMemoryY}`)
-          } else {
-            // Last cell - draw to end
-            pathSegments.push(`L ${cellEndX} ${memoryY}`)
-          }
-        }
-        
-        // Close the path by going to bottom-right
-        pathSegments.push(`L ${startX + numTimesteps * cellWidth} ${areaBottom}`)
-        pathSegments.push('Z')
-        
-        return (
-          <path
-            key={`memory-area-${gpuIdx}`}
-            d={pathSegments.join(' ')}
-            fill="rgba(128, 128, 128, 0.3)"
-            stroke="rgba(128, 128, 128, 0.5)"
-            strokeWidth="1"
+          </div>
+        </div>
+        <div className={`export-preview ${options.background}`}>
+          <FlowVisualization
+            {...figure}
+            background={options.background}
+            showMemory={options.includeMemory}
           />
-        )
-      })}
-    </svg>
+        </div>
+        {exportError && <div className="error-message">{exportError}</div>}
+        <div className="dialog-actions">
+          <button type="button" className="download-button" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="button" className="download-button" onClick={handleExport} autoFocus>
+            Download
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+function ComparisonTable({ rows }: { rows: ComparisonRow[] }) {
+  const format = (row: ComparisonRow, value: number) => row.isBytes ? formatGB(value) : String(value)
+  const formatDelta = (row: ComparisonRow) => {
+    const delta = row.current - row.baseline
+    if (delta === 0) return '='
+    return `${delta > 0 ? '+' : '−'}${format(row, Math.abs(delta))}`
+  }
+
+  return (
+    <table className="metrics-table">
+      <thead>
+        <tr><th></th><th>Baseline</th><th>Current</th><th>Δ</th></tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.label}>
+            <th>{row.label}</th>
+            <td>{format(row, row.baseline)}</td>
+            <td>{format(row, row.current)}</td>
+            <td className={row.current > row.baseline ? 'delta-worse' : row.current < row.baseline ? 'delta-better' : ''}>
+              {formatDelta(row)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
   )
 }
 
+/**
+ * A schedule pinned for comparison with the one being edited
+ */
+type Baseline = {
+  label: string
+  gridData: GridData
+  memoryConfig: MemoryConfig
+}
+
 function App() {
-  const [numGPUs, setNumGPUs] = useState(4)
-  const [numTimesteps, setNumTimesteps] = useState(10)
-  const [passType, setPassType] = useState<PassType>('forward')
-  const [gridData, setGridData] = useState<GridData>(() => 
-    createDefaultGrid(4, 10)
+  const [linked] = useState(readLinkedSchedule)
+  const [passType, setPassType] = useState<PassType>(linked.state?.passType ?? 'forward')
+  const [passDurations, setPassDurations] = useState<PassDurations>(linked.state?.passDurations ?? DEFAULT_PASS_DURATIONS)
+  const [latencies, setLatencies] = useState<CommLatencies>(linked.state?.latencies ?? DEFAULT_COMM_LATENCIES)
+  const [parallel, setParallel] = useState<ParallelConfig>(linked.state?.parallel ?? DEFAULT_PARALLEL_CONFIG)
+  const [appearance, setAppearance] = useState<Appearance>(linked.state?.appearance ?? DEFAULT_APPEARANCE)
+  const [annotations, setAnnotations] = useState<Annotations>(linked.state?.annotations ?? DEFAULT_ANNOTATIONS)
+  const [model, setModel] = useState<ModelConfig>(linked.state?.model ?? DEFAULT_MODEL_CONFIG)
+  const [layerSplitInput, setLayerSplitInput] = useState(model.layersPerStage.join(', '))
+  const [modelError, setModelError] = useState<string | null>(null)
+  // Note being typed for a cell, until it is saved or another cell is selected
+  const [noteDraft, setNoteDraft] = useState<{ cell: CellPosition; text: string } | null>(null)
+  const {
+    value: gridData,
+    set: setGridData,
+    undo,
+    redo,
+    canUndo,
+    canRedo
+  } = useUndoable<GridData>(() => linked.state?.gridData ?? createDefaultGrid(4, 10))
+  // The grid's dimensions are the source of truth, so undo restores them too
+  const numGPUs = gridData.length
+  const numTimesteps = gridData[0].length
+  const [selection, setSelection] = useState<Selection>({
+    anchor: { gpuIdx: 0, timeIdx: 0 },
+    focus: { gpuIdx: 0, timeIdx: 0 }
+  })
+  const [fillValue, setFillValue] = useState(1)
+  // Chunk that typed and filled operations go to in interleaved schedules
+  const [chunk, setChunk] = useState(0)
+  // Cells are either edited directly or placed by simulating each GPU's op order
+  const [editMode, setEditMode] = useState<'grid' | 'order'>('grid')
+  // Op orders as typed. A draft belongs to the grid it was typed against, so undo or a newly
+  // generated schedule shows that grid's order instead.
+  const [orderDraft, setOrderDraft] = useState<{ gridData: GridData; inputs: string[]; error: string | null } | null>(null)
+  const [draggedOp, setDraggedOp] = useState<{ gpuIdx: number; index: number } | null>(null)
+  const cellRefs = useRef(new Map<string, HTMLInputElement>())
+  // Cell to focus once scrolling has brought it into the rendered part of the grid
+  const pendingFocus = useRef<CellPosition | null>(null)
+  const gridScroll = useScrollViewport(GRID_SCROLL_STEP)
+  const isPointerSelecting = useRef(false)
+  const isFocusingFromCode = useRef(false)
+  const [scheduleKind, setScheduleKind] = useState<ScheduleKind>('1f1b')
+  const [numMicrobatches, setNumMicrobatches] = useState(8)
+  const [numChunks, setNumChunks] = useState(2)
+  const [scheduleError, setScheduleError] = useState<string | null>(null)
+  const [searchForwardInput, setSearchForwardInput] = useState('1')
+  const [searchBackwardInput, setSearchBackwardInput] = useState('2')
+  const [maxInFlight, setMaxInFlight] = useState(4)
+  const [searchSummary, setSearchSummary] = useState<string | null>(null)
+  const [memoryConfig, setMemoryConfig] = useState<MemoryConfig>(linked.state?.memoryConfig ?? DEFAULT_MEMORY_CONFIG)
+  const [activationInput, setActivationInput] = useState(
+    memoryConfig.activationBytes.map(bytes => bytes / BYTES_PER_GB).join(', ')
   )
+  const [fileError, setFileError] = useState<string | null>(linked.error)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [traceOptions, setTraceOptions] = useState<TraceImportOptions>(DEFAULT_TRACE_OPTIONS)
+  const [traceWarnings, setTraceWarnings] = useState<string[]>([])
+  const traceInputRef = useRef<HTMLInputElement>(null)
+
+  const applyScheduleState = useCallback((state: ScheduleState) => {
+    setPassType(state.passType)
+    setPassDurations(state.passDurations)
+    setLatencies(state.latencies)
+    setParallel(state.parallel)
+    setAppearance(state.appearance)
+    setAnnotations(state.annotations)
+    setModel(state.model)
+    setLayerSplitInput(state.model.layersPerStage.join(', '))
+    setMemoryConfig(state.memoryConfig)
+    setActivationInput(state.memoryConfig.activationBytes.map(bytes => bytes / BYTES_PER_GB).join(', '))
+    setGridData(state.gridData)
+    setFileError(null)
+    setTraceWarnings([])
+  }, [setGridData])
+
+  const scheduleState: ScheduleState = useMemo(() => ({
+    numGPUs,
+    numTimesteps,
+    passType,
+    passDurations,
+    memoryConfig,
+    latencies,
+    parallel,
+    appearance,
+    annotations,
+    model,
+    gridData
+  }), [numGPUs, numTimesteps, passType, passDurations, memoryConfig, latencies, parallel, appearance, annotations, model, gridData])
+
+  // Keep the URL hash in sync so the current link always reopens this exact schedule
+  useEffect(() => {
+    const hash = encodeScheduleHash(scheduleState)
+    window.history.replaceState(null, '', hash.length <= MAX_LINK_LENGTH ? hash : window.location.pathname + window.location.search)
+  }, [scheduleState])
+
+  // Follow links pasted into the address bar of an already open tab
+  useEffect(() => {
+    const handleHashChange = () => {
+      try {
+        const state = decodeScheduleHash(window.location.hash)
+        if (state) applyScheduleState(state)
+      } catch (error) {
+        setFileError(`Could not open the linked schedule: ${errorMessage(error)}`)
+      }
+    }
+    window.addEventListener('hashchange', handleHashChange)
+    return () => window.removeEventListener('hashchange', handleHashChange)
+  }, [applyScheduleState])
 
   const handleGridSizeChange = useCallback((newGPUs: number, newTimesteps: number) => {
     const newGrid: GridData = Array(newGPUs).fill(null).map((_, gpuIdx) => {
@@ -489,172 +915,1773 @@ function App() {
       }
     })
     setGridData(newGrid)
-  }, [gridData])
+  }, [gridData, setGridData])
 
   const handleGPUsChange = (value: number) => {
-    const newValue = Math.max(1, Math.min(50, value))
-    setNumGPUs(newValue)
+    const newValue = Math.max(1, Math.min(MAX_GPUS, value))
     handleGridSizeChange(newValue, numTimesteps)
   }
 
   const handleTimestepsChange = (value: number) => {
-    const newValue = Math.max(1, Math.min(100, value))
-    setNumTimesteps(newValue)
+    const newValue = Math.max(1, Math.min(MAX_TIMESTEPS, value))
     handleGridSizeChange(numGPUs, newValue)
   }
 
+  /**
+   * Cells take a whole microbatch number optionally followed by a chunk letter, e.g. 3b. The input
+   * already shows the current letter in interleaved schedules, so the last letter typed wins.
+   */
   const handleCellChange = (gpuIdx: number, timeIdx: number, value: string) => {
-    const newGrid = gridData.map((row, r) => 
-      r === gpuIdx 
-        ? row.map((cell, c) => {
-            if (c === timeIdx) {
-              const numValue = value === '' ? null : (isNaN(Number(value)) ? null : Number(value))
-              return {
-                value: numValue,
-                passType: numValue !== null ? passType : null
-              }
-            }
-            return cell
-          })
-        : row
-    )
-    setGridData(newGrid)
+    const match = /^(\d+)\s*([a-z]*)$/i.exec(value.trim())
+    const letters = match?.[2].toLowerCase() ?? ''
+    const cellChunk = letters ? Math.min(letters.charCodeAt(letters.length - 1) - 97, MAX_CHUNKS - 1) : chunk
+    // Numbers too long to store clear the cell like any other unreadable input
+    const numValue = match && isCellMicrobatch(Number(match[1])) ? Number(match[1]) : null
+    setGridData(setOperation(gridData, gpuIdx, timeIdx, numValue, passType, passDurations[passType], cellChunk))
   }
 
-  const blankCount = useMemo(() => {
-    return calculateBlankCount(gridData)
-  }, [gridData])
+  // Selections can outlive a shrinking grid, so clamp them before use
+  const clampPosition = (position: CellPosition): CellPosition => ({
+    gpuIdx: Math.min(position.gpuIdx, numGPUs - 1),
+    timeIdx: Math.min(position.timeIdx, numTimesteps - 1)
+  })
+  const selectedRange = selectionRange({ anchor: clampPosition(selection.anchor), focus: clampPosition(selection.focus) })
 
-  const svgRef = useRef<SVGSVGElement>(null)
+  // Notes go on the cell the selection started from
+  const noteCell = clampPosition(selection.anchor)
+  const isNoteCell = (cell: CellPosition) => cell.gpuIdx === noteCell.gpuIdx && cell.timeIdx === noteCell.timeIdx
+  const noteText = noteDraft && isNoteCell(noteDraft.cell)
+    ? noteDraft.text
+    : annotations.notes.find(isNoteCell)?.text ?? ''
 
-  const handleDownloadSVG = useCallback(() => {
-    if (!svgRef.current) return
+  const handleSaveNote = () => {
+    setAnnotations(setCellNote(annotations, noteCell.gpuIdx, noteCell.timeIdx, noteText))
+    setNoteDraft(null)
+  }
+  const isMultiCellSelection = selectedRange.gpuStart !== selectedRange.gpuEnd || selectedRange.timeStart !== selectedRange.timeEnd
 
-    const svgElement = svgRef.current.cloneNode(true) as SVGSVGElement
-    
-    // Ensure SVG has proper namespace and attributes
-    if (!svgElement.getAttribute('xmlns')) {
-      svgElement.setAttribute('xmlns', 'http://www.w3.org/2000/svg')
+  const focusCell = (position: CellPosition) => {
+    const cell = cellRefs.current.get(`${position.gpuIdx}-${position.timeIdx}`)
+    if (!cell) {
+      // Only cells near the view are rendered; scroll to it and focus it once it is
+      pendingFocus.current = position
+      gridScroll.element?.scrollTo({
+        left: GRID_LABEL_WIDTH + position.timeIdx * GRID_CELL_WIDTH - gridScroll.viewport.width / 2,
+        top: GRID_HEADER_HEIGHT + position.gpuIdx * GRID_ROW_HEIGHT - gridScroll.viewport.height / 2,
+      })
+      return
     }
-    if (!svgElement.getAttribute('xmlns:xlink')) {
-      svgElement.setAttribute('xmlns:xlink', 'http://www.w3.org/1999/xlink')
+    isFocusingFromCode.current = true
+    cell.focus()
+    isFocusingFromCode.current = false
+  }
+
+  useEffect(() => {
+    const position = pendingFocus.current
+    if (position && cellRefs.current.has(`${position.gpuIdx}-${position.timeIdx}`)) {
+      pendingFocus.current = null
+      focusCell(position)
     }
-    
-    const svgData = new XMLSerializer().serializeToString(svgElement)
-    const svgBlob = new Blob([svgData], { type: 'image/svg+xml;charset=utf-8' })
-    const svgUrl = URL.createObjectURL(svgBlob)
-    
-    const downloadLink = document.createElement('a')
-    downloadLink.href = svgUrl
-    downloadLink.download = 'gpu-visualization.svg'
-    document.body.appendChild(downloadLink)
-    downloadLink.click()
-    document.body.removeChild(downloadLink)
-    
-    URL.revokeObjectURL(svgUrl)
+  })
+
+  // Rows and columns of the grid in view, plus a margin so arrow keys always land on a rendered cell
+  const { viewport: gridViewport } = gridScroll
+  const gridColumns = {
+    start: Math.max(0, Math.floor((gridViewport.left - GRID_LABEL_WIDTH) / GRID_CELL_WIDTH) - GRID_OVERSCAN),
+    end: Math.min(numTimesteps, Math.ceil((gridViewport.left + gridViewport.width + GRID_SCROLL_STEP - GRID_LABEL_WIDTH) / GRID_CELL_WIDTH) + GRID_OVERSCAN),
+  }
+  const gridRows = {
+    start: Math.max(0, Math.floor((gridViewport.top - GRID_HEADER_HEIGHT) / GRID_ROW_HEIGHT) - GRID_OVERSCAN),
+    end: Math.min(numGPUs, Math.ceil((gridViewport.top + gridViewport.height + GRID_SCROLL_STEP - GRID_HEADER_HEIGHT) / GRID_ROW_HEIGHT) + GRID_OVERSCAN),
+  }
+
+  const selectRange = (range: CellRange) => {
+    setSelection({
+      anchor: { gpuIdx: range.gpuStart, timeIdx: range.timeStart },
+      focus: { gpuIdx: range.gpuEnd, timeIdx: range.timeEnd }
+    })
+  }
+
+  useEffect(() => {
+    const handleMouseUp = () => { isPointerSelecting.current = false }
+    window.addEventListener('mouseup', handleMouseUp)
+    return () => window.removeEventListener('mouseup', handleMouseUp)
   }, [])
 
-  return (
-    <div className="App">
-      <h1>GPU Pipelining Visualization</h1>
-      
-      <div className="main-layout">
-        <div className="top-section">
-          <div className="input-controls">
-            <div className="control-group">
-              <label htmlFor="num-gpus">Number of GPUs:</label>
-              <input
-                id="num-gpus"
-                type="number"
-                min="1"
-                max="50"
-                value={numGPUs}
-                onChange={(e) => handleGPUsChange(parseInt(e.target.value) || 1)}
-              />
-            </div>
-            <div className="control-group">
-              <label htmlFor="num-timesteps">Number of Timesteps:</label>
-              <input
-                id="num-timesteps"
-                type="number"
-                min="1"
-                max="100"
-                value={numTimesteps}
-                onChange={(e) => handleTimestepsChange(parseInt(e.target.value) || 1)}
-              />
-            </div>
-            <div className="control-group">
-              <label>Pass Type:</label>
-              <div className="toggle-switch-container">
-                <span className={`toggle-label ${passType === 'forward' ? 'active' : ''}`}>Forward</span>
-                <button
-                  type="button"
-                  className={`toggle-switch ${passType === 'backward' ? 'backward' : 'forward'}`}
-                  onClick={() => setPassType(passType === 'forward' ? 'backward' : 'forward')}
-                  aria-label="Toggle pass type"
-                >
-                  <span className="toggle-slider"></span>
-                </button>
-                <span className={`toggle-label ${passType === 'backward' ? 'active' : ''}`}>Backward</span>
-              </div>
-            </div>
-          </div>
+  const handleCellMouseDown = (event: React.MouseEvent, position: CellPosition) => {
+    isPointerSelecting.current = true
+    setSelection(event.shiftKey ? { anchor: selection.anchor, focus: position } : { anchor: position, focus: position })
+  }
 
-          <div className="grid-container">
-            <div className="grid-wrapper">
-              <div className="grid-header">
-                <div className="corner-cell"></div>
-                {Array(numTimesteps).fill(0).map((_, idx) => (
-                  <div key={idx} className="header-cell">t{idx}</div>
-                ))}
-              </div>
-              <div className="grid-body">
-                {gridData.map((row, gpuIdx) => (
-                  <div key={gpuIdx} className="grid-row">
-                    <div className="row-label">GPU {gpuIdx}</div>
-                    {row.map((cell, timeIdx) => (
-                      <input
-                        key={timeIdx}
-                        type="text"
-                        className={`grid-cell ${cell.value !== null ? 'filled' : 'empty'} ${cell.passType ? `pass-${cell.passType}` : ''}`}
-                        value={cell.value === null ? '' : cell.value}
-                        style={{ 
-                          backgroundColor: cell.value !== null 
-                            ? (cell.passType === 'forward' ? '#ff8800' : '#646cff') 
-                            : undefined,
-                          borderColor: cell.value !== null ? 'rgba(255,255,255,0.2)' : undefined
-                        }}
-                        onChange={(e) => handleCellChange(gpuIdx, timeIdx, e.target.value)}
-                        placeholder="-"
-                      />
-                    ))}
-                  </div>
-                ))}
-              </div>
-            </div>
-          </div>
-        </div>
-        <div className="bottom-section">
-          <div className="flow-container">
-            <FlowVisualization gridData={gridData} numGPUs={numGPUs} numTimesteps={numTimesteps} svgRef={svgRef} />
-            <div className="bottom-controls">
-              <div className="control-group">
-                <label>Bubble count:</label>
-                <div className="blank-counter">{blankCount}</div>
-              </div>
-              <div className="control-group">
-                <button 
-                  className="download-button"
-                  onClick={handleDownloadSVG}
-                  type="button"
-                >
-                  Download as SVG
-                </button>
-              </div>
-            </div>
-          </div>
-        </div>
-      </div>
+  const handleCellMouseEnter = (event: React.MouseEvent, position: CellPosition) => {
+    setHover({ cell: position, source: 'grid', x: event.clientX, y: event.clientY })
+    if (isPointerSelecting.current) setSelection({ anchor: selection.anchor, focus: position })
+  }
+
+  const handleCellFocus = (position: CellPosition) => {
+    // Tabbing into a cell selects it; clicks and arrow keys already updated the selection
+    if (isPointerSelecting.current || isFocusingFromCode.current) return
+    setSelection({ anchor: position, focus: position })
+  }
+
+  /**
+   * Moves the selection focus by one cell, stepping over whole multi-timestep operations
+   */
+  const moveSelection = (gpuDelta: number, timeDelta: number, extend: boolean) => {
+    const focus = clampPosition(selection.focus)
+    const gpuIdx = Math.max(0, Math.min(numGPUs - 1, focus.gpuIdx + gpuDelta))
+    const row = gridData[gpuIdx]
+    let timeIdx = getOperationStart(row, focus.timeIdx)
+    if (timeDelta > 0) {
+      timeIdx = Math.min(numTimesteps - 1, timeIdx + getOperationDuration(row, timeIdx))
+    } else if (timeDelta < 0) {
+      timeIdx = getOperationStart(row, Math.max(0, timeIdx - 1))
+    }
+    const next = { gpuIdx, timeIdx }
+    setSelection(extend ? { anchor: selection.anchor, focus: next } : { anchor: next, focus: next })
+    focusCell(next)
+  }
+
+  const handleDeleteSelection = () => setGridData(clearRange(gridData, selectedRange))
+
+  const handleFillSelection = () => {
+    setGridData(fillRange(gridData, selectedRange, fillValue, passType, passDurations[passType], chunk))
+  }
+
+  const handleShiftSelection = (delta: number) => {
+    const shifted = shiftRange(gridData, selectedRange, delta)
+    if (!shifted) return
+    setGridData(shifted.gridData)
+    selectRange(shifted.range)
+  }
+
+  const handleFlipSelection = () => setGridData(flipPassType(gridData, selectedRange))
+
+  const handleGridKeyDown = (event: React.KeyboardEvent) => {
+    const isModified = event.ctrlKey || event.metaKey
+    const arrows: { [key: string]: [number, number] } = {
+      ArrowUp: [-1, 0],
+      ArrowDown: [1, 0],
+      ArrowLeft: [0, -1],
+      ArrowRight: [0, 1]
+    }
+
+    if (event.key in arrows) {
+      const [gpuDelta, timeDelta] = arrows[event.key]
+      if (event.altKey) {
+        if (timeDelta !== 0) handleShiftSelection(timeDelta)
+      } else {
+        moveSelection(gpuDelta, timeDelta, event.shiftKey)
+      }
+    } else if (isModified && event.key.toLowerCase() === 'z') {
+      if (event.shiftKey) redo()
+      else undo()
+    } else if (isModified && event.key.toLowerCase() === 'y') {
+      redo()
+    } else if (event.key === 'Delete' || (event.key === 'Backspace' && isMultiCellSelection)) {
+      handleDeleteSelection()
+    } else {
+      return
+    }
+    event.preventDefault()
+  }
+
+  const handleGridCopy = (event: React.ClipboardEvent) => {
+    event.clipboardData.setData('text/plain', rangeToTSV(gridData, selectedRange))
+    event.preventDefault()
+  }
+
+  const handleGridCut = (event: React.ClipboardEvent) => {
+    handleGridCopy(event)
+    handleDeleteSelection()
+  }
+
+  const handleGridPaste = (event: React.ClipboardEvent) => {
+    const text = event.clipboardData.getData('text/plain')
+    if (!text) return
+    event.preventDefault()
+    const at = { gpuIdx: selectedRange.gpuStart, timeIdx: selectedRange.timeStart }
+    setGridData(pasteTSV(gridData, at, text, passType))
+  }
+
+  const opOrder = useMemo(() => extractOpOrder(gridData), [gridData])
+  const activeOrderDraft = orderDraft?.gridData === gridData ? orderDraft : null
+  const orderInputs = activeOrderDraft?.inputs ?? opOrder.map(formatOpOrder)
+
+  /**
+   * Places the op orders read by `readOrders` and shows the result, or keeps the grid and reports
+   * why the orders can't be placed
+   */
+  const applyOpOrder = (inputs: string[], readOrders: () => OrderedOp[][], orderLatencies = latencies) => {
+    try {
+      const newGrid = placeOpOrder(readOrders(), orderLatencies)
+      if (newGrid[0].length > MAX_TIMESTEPS) {
+        throw new Error(`This order needs ${newGrid[0].length} timesteps, more than the ${MAX_TIMESTEPS} the grid holds`)
+      }
+      setGridData(newGrid)
+      setOrderDraft({ gridData: newGrid, inputs, error: null })
+    } catch (error) {
+      setOrderDraft({ gridData, inputs, error: errorMessage(error) })
+    }
+  }
+
+  const handleOrderInputChange = (gpuIdx: number, text: string) => {
+    const inputs = orderInputs.map((input, idx) => idx === gpuIdx ? text : input)
+    applyOpOrder(inputs, () => inputs.map((input, idx) => parseOpOrder(input, passType, opOrder[idx], passDurations)))
+  }
+
+  const handleMoveOp = (gpuIdx: number, from: number, to: number) => {
+    if (to < 0 || to >= opOrder[gpuIdx].length || to === from) return
+    const orders = opOrder.map(order => order.slice())
+    const [op] = orders[gpuIdx].splice(from, 1)
+    orders[gpuIdx].splice(to, 0, op)
+    applyOpOrder(orders.map(formatOpOrder), () => orders)
+  }
+
+  const handleOpChipKeyDown = (event: React.KeyboardEvent, gpuIdx: number, index: number) => {
+    if (!event.altKey || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return
+    event.preventDefault()
+    handleMoveOp(gpuIdx, index, index + (event.key === 'ArrowLeft' ? -1 : 1))
+  }
+
+  const handlePassDurationChange = (type: PassType, value: number) => {
+    setPassDurations({ ...passDurations, [type]: Math.max(1, Math.min(10, value)) })
+  }
+
+  const handleLatencyChange = (key: keyof CommLatencies, value: number) => {
+    const newLatencies = { ...latencies, [key]: Math.max(0, Math.min(10, value)) }
+    setLatencies(newLatencies)
+    // Op orders are placed against the latencies, so the same order now lands elsewhere
+    if (editMode === 'order') applyOpOrder(opOrder.map(formatOpOrder), () => opOrder, newLatencies)
+  }
+
+  const handleParallelDegreeChange = (key: 'dataParallel' | 'tensorParallel', value: number) => {
+    setParallel({ ...parallel, [key]: Math.max(1, Math.min(MAX_PARALLEL_DEGREE, value)) })
+  }
+
+  const handleSyncTimeChange = (key: 'allReduceTime' | 'optimizerTime', value: number) => {
+    setParallel({ ...parallel, [key]: Math.max(0, Math.min(20, value)) })
+  }
+
+  const handleActivationChange = (value: string) => {
+    setActivationInput(value)
+    const activationBytes = parseStageGB(value)
+    if (activationBytes) setMemoryConfig({ ...memoryConfig, activationBytes })
+  }
+
+  const handleMemoryGBChange = (key: 'weightBytes' | 'optimizerBytes' | 'capacityBytes', value: number) => {
+    setMemoryConfig({ ...memoryConfig, [key]: Math.max(0, value) * BYTES_PER_GB })
+  }
+
+  // Interleaving only takes microbatches in whole groups of one per GPU
+  const isInterleavingPossible = canInterleave(numGPUs, numMicrobatches)
+  const isGenerateBlocked = scheduleKind === 'interleaved-1f1b' && !isInterleavingPossible
+
+  const handleGenerateSchedule = () => {
+    try {
+      const newGrid = generateSchedule(scheduleKind, {
+        numGPUs,
+        numMicrobatches,
+        numChunks,
+        durations: passDurations,
+        latencies
+      })
+      if (newGrid[0].length > MAX_TIMESTEPS) {
+        throw new Error(`This schedule needs ${newGrid[0].length} timesteps, more than the ${MAX_TIMESTEPS} the grid holds`)
+      }
+      setGridData(newGrid)
+      setScheduleError(null)
+    } catch (error) {
+      setScheduleError(errorMessage(error))
+    }
+  }
+
+  const search = useScheduleSearch(message => {
+    if (message.type === 'error') {
+      setScheduleError(message.message)
+    } else if (!message.result) {
+      setScheduleError(`No schedule keeps every GPU within ${maxInFlight} microbatches in flight`)
+    } else if (message.result.makespan > MAX_TIMESTEPS) {
+      setScheduleError(`The best schedule found needs ${message.result.makespan} timesteps, more than the ${MAX_TIMESTEPS} the grid holds`)
+    } else {
+      setGridData(message.result.gridData)
+      setScheduleError(null)
+      setSearchSummary(`Makespan ${message.result.makespan}, ${message.result.bubbleTime} bubble timesteps `
+        + `(${message.result.blankCount} empty cells), `
+        + `${message.explored.toLocaleString()} nodes searched${message.exhaustive ? ' (optimal)' : ' (budget reached)'}`)
+    }
+  })
+
+  const handleSearchSchedule = () => {
+    const forwardDurations = parseStageDurations(searchForwardInput)
+    const backwardDurations = parseStageDurations(searchBackwardInput)
+    if (!forwardDurations || !backwardDurations) {
+      setScheduleError('Search durations must be positive whole timesteps, one value or one per stage')
+      return
+    }
+    setSearchSummary(null)
+    search.start({
+      numGPUs,
+      numMicrobatches,
+      forwardDurations,
+      backwardDurations,
+      maxInFlight,
+      latencies,
+      nodeBudget: DEFAULT_NODE_BUDGET
+    })
+  }
+
+  const violations = useMemo(() => validateSchedule(gridData, latencies), [gridData, latencies])
+  const violationsByCell = useMemo(() => groupViolationsByCell(violations), [violations])
+  const showChunks = gridUsesChunks(gridData)
+
+  const metrics = useMemo(() => computeMetrics(gridData), [gridData])
+  const commOverlap = useMemo(() => computeCommOverlap(gridData, latencies), [gridData, latencies])
+  // Only worth reporting when there is a gradient sync or optimizer step to add
+  const stepTime = useMemo(() => parallel.dataParallel > 1 || parallel.optimizerTime > 0
+    ? computeStepTime(gridData, computeSyncPhases(gridData, parallel))
+    : null, [gridData, parallel])
+
+  const costEstimate = useMemo(() => {
+    try {
+      return { estimate: estimateStageCosts(model, numGPUs), error: null }
+    } catch (error) {
+      return { estimate: null, error: errorMessage(error) }
+    }
+  }, [model, numGPUs])
+  const costReport = useMemo(() => costEstimate.estimate && reportStepCost(
+    gridData, model, costEstimate.estimate, stepTime ?? metrics.makespan
+  ), [costEstimate, gridData, model, stepTime, metrics])
+
+  const handleModelNumberChange = (key: keyof typeof MODEL_LIMITS, value: number) => {
+    setModel({ ...model, [key]: Math.max(1, Math.min(MODEL_LIMITS[key], Math.round(value) || 1)) })
+  }
+
+  const handleLayerSplitChange = (value: string) => {
+    setLayerSplitInput(value)
+    const layersPerStage = parseLayerSplit(value)
+    if (layersPerStage) setModel({ ...model, layersPerStage })
+  }
+
+  // Retimes the schedule's op order with the model's stage durations and takes over its memory
+  const handleApplyCostModel = () => {
+    try {
+      if (!costEstimate.estimate) throw new Error(costEstimate.error)
+      const newGrid = applyStageCosts(gridData, costEstimate.estimate, latencies)
+      if (newGrid[0].length > MAX_TIMESTEPS) {
+        throw new Error(`The estimated schedule needs ${newGrid[0].length} timesteps, more than the ${MAX_TIMESTEPS} the grid holds`)
+      }
+      const newMemoryConfig = costMemoryConfig(costEstimate.estimate, memoryConfig)
+      setGridData(newGrid)
+      setMemoryConfig(newMemoryConfig)
+      setActivationInput(newMemoryConfig.activationBytes.map(bytes => (bytes / BYTES_PER_GB).toFixed(2)).join(', '))
+      setModelError(null)
+    } catch (error) {
+      setModelError(`Could not apply the model: ${errorMessage(error)}`)
+    }
+  }
+
+  const figureBackground: FigureBackground = appearance.theme === 'light' ? 'white' : 'dark'
+
+  const [slowdownInput, setSlowdownInput] = useState('')
+  const [forwardCostInput, setForwardCostInput] = useState('')
+  const [backwardCostInput, setBackwardCostInput] = useState('')
+  const [injectedDelays, setInjectedDelays] = useState<InjectedDelay[]>([])
+  const [delayInput, setDelayInput] = useState(2)
+  // Blank cost fields keep the schedule's own durations
+  const parseCostInput = (text: string) => text.trim() === '' ? [] : parseStageDurations(text)
+
+  const whatIf = useMemo(() => {
+    const config = {
+      slowdowns: parseSlowdowns(slowdownInput) ?? [],
+      forwardCosts: parseCostInput(forwardCostInput) ?? [],
+      backwardCosts: parseCostInput(backwardCostInput) ?? [],
+      delays: injectedDelays,
+    }
+    if (!isWhatIfActive(config)) return null
+    try {
+      const result = simulateWhatIf(gridData, config, latencies)
+      return { result, violations: validateSchedule(result.gridData, latencies), error: null }
+    } catch (error) {
+      return { result: null, violations: [], error: `Could not replay the schedule: ${errorMessage(error)}` }
+    }
+  }, [gridData, latencies, slowdownInput, forwardCostInput, backwardCostInput, injectedDelays])
+
+  // Repeats what the main figure would otherwise show; not saved, like the what-if
+  const [iterationConfig, setIterationConfig] = useState<IterationConfig>(DEFAULT_ITERATION_CONFIG)
+  const tiled = useMemo(() => {
+    if (iterationConfig.numIterations <= 1) return null
+    try {
+      const result = tileIterations(whatIf?.result?.gridData ?? gridData, iterationConfig, memoryConfig, latencies)
+      return { result, violations: validateSchedule(result.gridData, latencies), error: null }
+    } catch (error) {
+      return { result: null, violations: [], error: `Could not repeat the schedule: ${errorMessage(error)}` }
+    }
+  }, [whatIf, gridData, iterationConfig, memoryConfig, latencies])
+
+  const selectedOpStart = gridData[selectedRange.gpuStart][selectedRange.timeStart].value !== null
+    ? getOperationStart(gridData[selectedRange.gpuStart], selectedRange.timeStart)
+    : null
+
+  const handleInjectDelay = () => {
+    if (selectedOpStart === null) return
+    setInjectedDelays([...injectedDelays, { gpuIdx: selectedRange.gpuStart, timeIdx: selectedOpStart, delay: delayInput }])
+  }
+
+  const handleClearWhatIf = () => {
+    setSlowdownInput('')
+    setForwardCostInput('')
+    setBackwardCostInput('')
+    setInjectedDelays([])
+  }
+
+  const [baseline, setBaseline] = useState<Baseline | null>(null)
+  const [showDiff, setShowDiff] = useState(true)
+  const baselineInputRef = useRef<HTMLInputElement>(null)
+
+  // Both schedules share one time axis so the same column means the same moment
+  const comparison = useMemo(() => {
+    if (!baseline) return null
+    const [baselineGrid, currentGrid] = alignGrids(baseline.gridData, gridData)
+    return {
+      baselineGrid,
+      currentGrid,
+      baselineViolations: validateSchedule(baselineGrid, latencies),
+      diff: diffSchedules(baselineGrid, currentGrid),
+      rows: compareSchedules(baselineGrid, currentGrid, baseline.memoryConfig, memoryConfig)
+    }
+  }, [baseline, gridData, memoryConfig, latencies])
+
+  const handlePinBaseline = () => {
+    setBaseline({ label: 'Pinned schedule', gridData, memoryConfig })
+  }
+
+  const handleLoadBaseline = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const state = parseSchedule(await file.text())
+      setBaseline({ label: file.name, gridData: state.gridData, memoryConfig: state.memoryConfig })
+      setFileError(null)
+    } catch (error) {
+      setFileError(`Could not load ${file.name}: ${errorMessage(error)}`)
+    }
+    if (baselineInputRef.current) baselineInputRef.current.value = ''
+  }
+
+  const timelineLength = comparison
+    ? comparison.currentGrid[0].length
+    : Math.max(numTimesteps, whatIf?.result?.gridData[0].length ?? 0, tiled?.result?.gridData[0].length ?? 0)
+  const playback = usePlayback(timelineLength)
+
+  // The schedule the main figure shows and what is drawn over it, which hovering and clicking
+  // refer to and exports reproduce
+  const mainFigure = comparison
+    ? { gridData: comparison.currentGrid, violations, diff: showDiff ? comparison.diff.current : undefined }
+    : tiled?.result
+      ? { gridData: tiled.result.gridData, violations: tiled.violations, iterations: tiled.result.view }
+      : whatIf?.result
+        ? { gridData: whatIf.result.gridData, violations: whatIf.violations, ghost: gridData }
+        : { gridData, violations }
+  const figureGrid = mainFigure.gridData
+
+  // Cell under the pointer in the editor grid or the figure, and where to show its tooltip
+  const [hover, setHover] = useState<{ cell: CellPosition; source: 'grid' | 'figure'; x: number; y: number } | null>(null)
+  const [isolatedMicrobatch, setIsolatedMicrobatch] = useState<number | null>(null)
+  const hoverGrid = hover?.source === 'figure' ? figureGrid : gridData
+  const isHovering = hover !== null
+  // Only worked out while something is hovered, so editing large grids doesn't pay for it
+  const hoverMemory = useMemo(() => isHovering ? {
+    bytes: computeMemoryBytes(hoverGrid, memoryConfig),
+    batches: countBatchesInMemory(hoverGrid),
+  } : null, [isHovering, hoverGrid, memoryConfig])
+  const hoveredCell = hover ? hoverGrid[hover.cell.gpuIdx]?.[hover.cell.timeIdx] : undefined
+  // Optimizer steps of repeated iterations carry their iteration's number in place of a microbatch
+  const hoveredIteration = hover?.source === 'figure' && !comparison && tiled?.result && hoveredCell && hoveredCell.value !== null
+    ? hoveredCell.passType === 'optimizer' ? hoveredCell.value : (tiled.result.view.iterationOf.get(hoveredCell.value) ?? 0) + 1
+    : null
+
+  const handleFigureHover = useCallback((cell: CellPosition | null, x: number, y: number) => {
+    setHover(cell && { cell, source: 'figure', x, y })
+  }, [])
+
+  // Clicking a pass isolates its microbatch; clicking it again or anything else clears that
+  const handleFigureClick = useCallback((cell: CellPosition | null) => {
+    const clicked = cell && figureGrid[cell.gpuIdx][cell.timeIdx]
+    const microbatch = clicked && clicked.value !== null && clicked.passType !== 'optimizer' ? clicked.value : null
+    setIsolatedMicrobatch(current => microbatch === current ? null : microbatch)
+  }, [figureGrid])
+
+  const microbatchPath = useMemo(() => isolatedMicrobatch === null
+    ? null
+    : traceMicrobatch(figureGrid, isolatedMicrobatch, latencies),
+  [figureGrid, isolatedMicrobatch, latencies])
+
+  const [isExportOpen, setIsExportOpen] = useState(false)
+  const [exportOptions, setExportOptions] = useState<ExportOptions>(DEFAULT_EXPORT_OPTIONS)
+
+  const handleExportJSON = () => {
+    downloadFile(serializeSchedule(scheduleState), 'pipeline-schedule.json', 'application/json')
+  }
+
+  const handleImportJSON = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      applyScheduleState(parseSchedule(await file.text()))
+    } catch (error) {
+      setFileError(`Could not load ${file.name}: ${errorMessage(error)}`)
+    }
+    // Allow loading the same file again after fixing it
+    if (fileInputRef.current) fileInputRef.current.value = ''
+  }
+
+  const applyTrace = (trace: unknown, source: string) => {
+    try {
+      const result = importTrace(trace, traceOptions)
+      setGridData(result.gridData)
+      setTraceWarnings(result.warnings)
+      setFileError(null)
+    } catch (error) {
+      setFileError(`Could not import ${source}: ${errorMessage(error)}`)
+    }
+  }
+
+  const handleImportTrace = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      applyTrace(JSON.parse(await file.text()), file.name)
+    } catch {
+      setFileError(`Could not import ${file.name}: not valid JSON`)
+    }
+    if (traceInputRef.current) traceInputRef.current.value = ''
+  }
+
+  const handleLoadSampleTrace = async () => {
+    const sample = await import('./samples/1f1b-trace.json')
+    applyTrace(sample.default, 'the sample trace')
+  }
+
+  return (
+    <div className="App">
+      <h1>GPU Pipelining Visualization</h1>
+      
+      <div className="main-layout">
+        <div className="top-section">
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="num-gpus">Number of GPUs:</label>
+              <input
+                id="num-gpus"
+                type="number"
+                min="1"
+                max={MAX_GPUS}
+                value={numGPUs}
+                onChange={(e) => handleGPUsChange(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="num-timesteps">Number of Timesteps:</label>
+              <input
+                id="num-timesteps"
+                type="number"
+                min="1"
+                max={MAX_TIMESTEPS}
+                value={numTimesteps}
+                onChange={(e) => handleTimestepsChange(parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="pass-type">Pass Type:</label>
+              <select id="pass-type" value={passType} onChange={(e) => setPassType(e.target.value as PassType)}>
+                {PASS_TYPES.map(type => (
+                  <option key={type} value={type}>{PASS_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="cell-chunk">Chunk:</label>
+              <select id="cell-chunk" value={chunk} onChange={(e) => setChunk(Number(e.target.value))}>
+                {Array(MAX_CHUNKS).fill(0).map((_, idx) => (
+                  <option key={idx} value={idx}>{chunkLetter(idx)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="pass-duration">{PASS_TYPE_LABELS[passType]} duration:</label>
+              <input
+                id="pass-duration"
+                type="number"
+                min="1"
+                max="10"
+                value={passDurations[passType]}
+                onChange={(e) => handlePassDurationChange(passType, parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="activation-latency">Activation send:</label>
+              <input
+                id="activation-latency"
+                type="number"
+                min="0"
+                max="10"
+                value={latencies.activation}
+                title="Timesteps a forward's activations take to reach the next GPU"
+                onChange={(e) => handleLatencyChange('activation', parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="gradient-latency">Gradient send:</label>
+              <input
+                id="gradient-latency"
+                type="number"
+                min="0"
+                max="10"
+                value={latencies.gradient}
+                title="Timesteps a backward's gradients take to reach the previous GPU"
+                onChange={(e) => handleLatencyChange('gradient', parseInt(e.target.value) || 0)}
+              />
+            </div>
+          </div>
+
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="schedule-kind">Schedule:</label>
+              <select
+                id="schedule-kind"
+                value={scheduleKind}
+                onChange={(e) => setScheduleKind(e.target.value as ScheduleKind)}
+              >
+                {(Object.keys(SCHEDULE_LABELS) as ScheduleKind[]).map(kind => (
+                  <option key={kind} value={kind} disabled={kind === 'interleaved-1f1b' && !isInterleavingPossible}>
+                    {SCHEDULE_LABELS[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="num-microbatches">Microbatches:</label>
+              <input
+                id="num-microbatches"
+                type="number"
+                min="1"
+                max={MAX_GENERATED_MICROBATCHES}
+                value={numMicrobatches}
+                onChange={(e) => setNumMicrobatches(Math.max(1, Math.min(MAX_GENERATED_MICROBATCHES, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+            {scheduleKind === 'interleaved-1f1b' && (
+              <div className="control-group">
+                <label htmlFor="num-chunks">Chunks per GPU:</label>
+                <input
+                  id="num-chunks"
+                  type="number"
+                  min="1"
+                  max={MAX_CHUNKS}
+                  value={numChunks}
+                  onChange={(e) => setNumChunks(Math.max(1, Math.min(MAX_CHUNKS, parseInt(e.target.value) || 1)))}
+                />
+              </div>
+            )}
+            <div className="control-group">
+              <label>&nbsp;</label>
+              <button
+                className="download-button"
+                onClick={handleGenerateSchedule}
+                type="button"
+                disabled={isGenerateBlocked}
+                title={isGenerateBlocked ? 'Interleaved 1F1B needs the microbatches to be a multiple of the GPUs' : undefined}
+              >
+                Generate
+              </button>
+            </div>
+          </div>
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="search-forward">Search F durations:</label>
+              <input
+                id="search-forward"
+                type="text"
+                className={`text-input ${parseStageDurations(searchForwardInput) ? '' : 'invalid'}`}
+                value={searchForwardInput}
+                title="Timesteps per forward: one value for every stage, or a comma-separated value per stage"
+                onChange={(e) => setSearchForwardInput(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="search-backward">Search B durations:</label>
+              <input
+                id="search-backward"
+                type="text"
+                className={`text-input ${parseStageDurations(searchBackwardInput) ? '' : 'invalid'}`}
+                value={searchBackwardInput}
+                title="Timesteps per backward: one value for every stage, or a comma-separated value per stage"
+                onChange={(e) => setSearchBackwardInput(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="max-in-flight">Max in flight:</label>
+              <input
+                id="max-in-flight"
+                type="number"
+                min="1"
+                max="64"
+                value={maxInFlight}
+                title="Microbatches whose activations each GPU may hold at once"
+                onChange={(e) => setMaxInFlight(Math.max(1, Math.min(64, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="control-group">
+              <label>&nbsp;</label>
+              {search.isSearching ? (
+                <button className="download-button" onClick={search.cancel} type="button">
+                  Cancel search
+                </button>
+              ) : (
+                <button className="download-button" onClick={handleSearchSchedule} type="button">
+                  Search
+                </button>
+              )}
+            </div>
+            {search.progress && (
+              <div className="control-group search-progress">
+                <label htmlFor="search-progress">
+                  {search.progress.best ? `Best makespan so far: ${search.progress.best.makespan}` : 'Searching…'}
+                </label>
+                <progress id="search-progress" value={search.progress.explored} max={search.progress.nodeBudget} />
+              </div>
+            )}
+            {!search.progress && searchSummary && (
+              <div className="control-group search-progress">
+                <label>Last search:</label>
+                <span>{searchSummary}</span>
+              </div>
+            )}
+          </div>
+
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="data-parallel">DP degree:</label>
+              <input
+                id="data-parallel"
+                type="number"
+                min="1"
+                max={MAX_PARALLEL_DEGREE}
+                value={parallel.dataParallel}
+                onChange={(e) => handleParallelDegreeChange('dataParallel', parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="tensor-parallel">TP size:</label>
+              <input
+                id="tensor-parallel"
+                type="number"
+                min="1"
+                max={MAX_PARALLEL_DEGREE}
+                value={parallel.tensorParallel}
+                onChange={(e) => handleParallelDegreeChange('tensorParallel', parseInt(e.target.value) || 1)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="all-reduce-time">All-reduce:</label>
+              <input
+                id="all-reduce-time"
+                type="number"
+                min="0"
+                max="20"
+                value={parallel.allReduceTime}
+                title="Timesteps to all-reduce one stage's gradients across data-parallel replicas"
+                onChange={(e) => handleSyncTimeChange('allReduceTime', parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="optimizer-time">Optimizer step:</label>
+              <input
+                id="optimizer-time"
+                type="number"
+                min="0"
+                max="20"
+                value={parallel.optimizerTime}
+                onChange={(e) => handleSyncTimeChange('optimizerTime', parseInt(e.target.value) || 0)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="overlap-all-reduce">Overlap with backward:</label>
+              <input
+                id="overlap-all-reduce"
+                type="checkbox"
+                checked={parallel.overlapAllReduce}
+                onChange={(e) => setParallel({ ...parallel, overlapAllReduce: e.target.checked })}
+              />
+            </div>
+          </div>
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="what-if-slowdown">Slowdown per GPU:</label>
+              <input
+                id="what-if-slowdown"
+                type="text"
+                className={`text-input ${parseSlowdowns(slowdownInput) ? '' : 'invalid'}`}
+                value={slowdownInput}
+                placeholder="e.g. 1, 1, 1.5"
+                title="Factor each GPU's operations take longer by; GPUs past the list run at normal speed"
+                onChange={(e) => setSlowdownInput(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="what-if-forward">Stage F costs:</label>
+              <input
+                id="what-if-forward"
+                type="text"
+                className={`text-input ${parseCostInput(forwardCostInput) ? '' : 'invalid'}`}
+                value={forwardCostInput}
+                placeholder="as scheduled"
+                title="Timesteps per forward: one value for every stage, or a comma-separated value per stage"
+                onChange={(e) => setForwardCostInput(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="what-if-backward">Stage B costs:</label>
+              <input
+                id="what-if-backward"
+                type="text"
+                className={`text-input ${parseCostInput(backwardCostInput) ? '' : 'invalid'}`}
+                value={backwardCostInput}
+                placeholder="as scheduled"
+                title="Timesteps per backward: one value for every stage, or a comma-separated value per stage"
+                onChange={(e) => setBackwardCostInput(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="what-if-delay">Delay (timesteps):</label>
+              <input
+                id="what-if-delay"
+                type="number"
+                min="1"
+                max="20"
+                value={delayInput}
+                onChange={(e) => setDelayInput(Math.max(1, Math.min(20, parseInt(e.target.value) || 1)))}
+              />
+            </div>
+            <div className="control-group">
+              <label>&nbsp;</label>
+              <button
+                className="download-button"
+                onClick={handleInjectDelay}
+                disabled={selectedOpStart === null}
+                title="Stall the selected operation's GPU before it starts"
+                type="button"
+              >
+                Delay selected op
+              </button>
+            </div>
+            {injectedDelays.length > 0 && (
+              <div className="control-group">
+                <label>Injected delays:</label>
+                <div className="button-row">
+                  {injectedDelays.map((injected, idx) => (
+                    <button
+                      key={idx}
+                      type="button"
+                      className="delay-chip"
+                      title="Remove this delay"
+                      onClick={() => setInjectedDelays(injectedDelays.filter((_, other) => other !== idx))}
+                    >
+                      GPU {injected.gpuIdx} t{injected.timeIdx} +{injected.delay} ×
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            {whatIf && (
+              <div className="control-group">
+                <label>&nbsp;</label>
+                <button className="download-button" onClick={handleClearWhatIf} type="button">
+                  Clear what-if
+                </button>
+              </div>
+            )}
+          </div>
+          {whatIf?.result && (
+            <div className="what-if-summary">
+              What-if makespan {whatIf.result.makespanBefore} → {whatIf.result.makespanAfter}
+              {' '}({whatIf.result.makespanAfter >= whatIf.result.makespanBefore ? '+' : ''}{whatIf.result.makespanAfter - whatIf.result.makespanBefore}).
+              {' '}{whatIf.result.delayedMicrobatches.length > 0
+                ? `Delayed microbatches: ${whatIf.result.delayedMicrobatches.map(({ microbatch, delay }) => `${microbatch} (+${delay})`).join(', ')}.`
+                : 'No microbatch finishes later.'}
+              {' '}Dashed outlines show where operations were.
+            </div>
+          )}
+          {whatIf?.error && <div className="error-message">{whatIf.error}</div>}
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="iteration-count">Iterations:</label>
+              <input
+                id="iteration-count"
+                type="number"
+                min="1"
+                max={MAX_ITERATIONS}
+                value={iterationConfig.numIterations}
+                title="Repeat the schedule to see it in steady state"
+                onChange={(e) => setIterationConfig({
+                  ...iterationConfig,
+                  numIterations: Math.max(1, Math.min(MAX_ITERATIONS, parseInt(e.target.value) || 1))
+                })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="iteration-flush">Optimizer step / flush:</label>
+              <input
+                id="iteration-flush"
+                type="number"
+                min="0"
+                max="20"
+                value={iterationConfig.flushTime}
+                title="Timesteps between one iteration and the next"
+                onChange={(e) => setIterationConfig({
+                  ...iterationConfig,
+                  flushTime: Math.max(0, Math.min(20, parseInt(e.target.value) || 0))
+                })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="iteration-numbering">Microbatch numbers:</label>
+              <select
+                id="iteration-numbering"
+                value={iterationConfig.numbering}
+                onChange={(e) => setIterationConfig({ ...iterationConfig, numbering: e.target.value as IterationConfig['numbering'] })}
+              >
+                <option value="continue">Continue across iterations</option>
+                <option value="restart">Restart each iteration</option>
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="iteration-overlap">Overlap (PipeDream):</label>
+              <input
+                id="iteration-overlap"
+                type="checkbox"
+                checked={iterationConfig.overlap}
+                title="Start each GPU's next forwards once its current ones are done, and step optimizers per GPU"
+                onChange={(e) => setIterationConfig({ ...iterationConfig, overlap: e.target.checked })}
+              />
+            </div>
+          </div>
+          {tiled?.error && <div className="error-message">{tiled.error}</div>}
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="trace-gpu-key">Trace GPU from:</label>
+              <select
+                id="trace-gpu-key"
+                value={traceOptions.gpuKey}
+                onChange={(e) => setTraceOptions({ ...traceOptions, gpuKey: e.target.value as TraceGPUKey })}
+              >
+                <option value="pid">pid</option>
+                <option value="tid">tid</option>
+                <option value="rank">args.rank</option>
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="trace-forward-pattern">Forward name pattern:</label>
+              <input
+                id="trace-forward-pattern"
+                type="text"
+                className="text-input"
+                value={traceOptions.forwardPattern}
+                title="Regular expression; its first capture group is the microbatch"
+                onChange={(e) => setTraceOptions({ ...traceOptions, forwardPattern: e.target.value })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="trace-backward-pattern">Backward name pattern:</label>
+              <input
+                id="trace-backward-pattern"
+                type="text"
+                className="text-input"
+                value={traceOptions.backwardPattern}
+                title="Regular expression; its first capture group is the microbatch"
+                onChange={(e) => setTraceOptions({ ...traceOptions, backwardPattern: e.target.value })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="trace-timestep">Timestep (µs):</label>
+              <input
+                id="trace-timestep"
+                type="number"
+                min="0"
+                step="any"
+                placeholder="auto"
+                value={traceOptions.timestepUs ?? ''}
+                onChange={(e) => setTraceOptions({
+                  ...traceOptions,
+                  timestepUs: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                })}
+              />
+            </div>
+            <div className="control-group">
+              <label>&nbsp;</label>
+              <button
+                className="download-button"
+                onClick={() => traceInputRef.current?.click()}
+                type="button"
+              >
+                Import trace
+              </button>
+              <input
+                ref={traceInputRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => handleImportTrace(e.target.files?.[0])}
+              />
+            </div>
+            <div className="control-group">
+              <label>&nbsp;</label>
+              <button
+                className="download-button"
+                onClick={handleLoadSampleTrace}
+                type="button"
+              >
+                Load sample trace
+              </button>
+            </div>
+          </div>
+          {scheduleError && <div className="error-message">{scheduleError}</div>}
+          {fileError && <div className="error-message">{fileError}</div>}
+          {traceWarnings.length > 0 && (
+            <div className="error-message" title={traceWarnings.join('\n')}>
+              Trace imported with {traceWarnings.length} warning{traceWarnings.length === 1 ? '' : 's'} (hover for details)
+            </div>
+          )}
+          <div className="input-controls">
+            <div className="control-group">
+              <label htmlFor="model-layers">Model layers:</label>
+              <input
+                id="model-layers"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.numLayers}
+                value={model.numLayers}
+                onChange={(e) => handleModelNumberChange('numLayers', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-hidden">Hidden size:</label>
+              <input
+                id="model-hidden"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.hiddenSize}
+                value={model.hiddenSize}
+                onChange={(e) => handleModelNumberChange('hiddenSize', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-seq">Sequence length:</label>
+              <input
+                id="model-seq"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.seqLength}
+                value={model.seqLength}
+                onChange={(e) => handleModelNumberChange('seqLength', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-microbatch">Microbatch size:</label>
+              <input
+                id="model-microbatch"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.microbatchSize}
+                title="Sequences per microbatch"
+                value={model.microbatchSize}
+                onChange={(e) => handleModelNumberChange('microbatchSize', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-vocab">Vocabulary:</label>
+              <input
+                id="model-vocab"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.vocabSize}
+                value={model.vocabSize}
+                onChange={(e) => handleModelNumberChange('vocabSize', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-precision">Precision:</label>
+              <select
+                id="model-precision"
+                value={model.precision}
+                onChange={(e) => setModel({ ...model, precision: e.target.value as Precision })}
+              >
+                {(Object.keys(PRECISION_LABELS) as Precision[]).map(precision => (
+                  <option key={precision} value={precision}>{PRECISION_LABELS[precision]}</option>
+                ))}
+              </select>
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-split">Layers per stage:</label>
+              <input
+                id="model-split"
+                type="text"
+                className={`text-input ${parseLayerSplit(layerSplitInput) ? '' : 'invalid'}`}
+                value={layerSplitInput}
+                placeholder="even split"
+                title="Comma-separated layer count per GPU, adding up to the model's layers"
+                onChange={(e) => handleLayerSplitChange(e.target.value)}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-peak">Peak TFLOP/s:</label>
+              <input
+                id="model-peak"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.peakTFLOPs}
+                title="Dense peak of one GPU at the model precision"
+                value={model.peakTFLOPs}
+                onChange={(e) => setModel({ ...model, peakTFLOPs: Math.max(1, Math.min(MODEL_LIMITS.peakTFLOPs, parseFloat(e.target.value) || 1)) })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-efficiency">Efficiency (%):</label>
+              <input
+                id="model-efficiency"
+                type="number"
+                min="1"
+                max="100"
+                title="Share of the peak the model's kernels reach"
+                value={Math.round(model.efficiency * 100)}
+                onChange={(e) => setModel({ ...model, efficiency: Math.max(1, Math.min(100, parseFloat(e.target.value) || 1)) / 100 })}
+              />
+            </div>
+            <div className="control-group">
+              <label htmlFor="model-forward-timesteps">Slowest forward (timesteps):</label>
+              <input
+                id="model-forward-timesteps"
+                type="number"
+                min="1"
+                max={MODEL_LIMITS.forwardTimesteps}
+                title="Sets how long a timestep is"
+                value={model.forwardTimesteps}
+                onChange={(e) => handleModelNumberChange('forwardTimesteps', parseFloat(e.target.value))}
+              />
+            </div>
+            <div className="control-group">
+              <label>&nbsp;</label>
+              <button
+                className="download-button"
+                onClick={handleApplyCostModel}
+                disabled={!costEstimate.estimate}
+                title="Retime the schedule with the estimated durations and use the estimated memory"
+                type="button"
+              >
+                Apply model to schedule
+              </button>
+            </div>
+          </div>
+          {(costEstimate.error ?? modelError) && <div className="error-message">{costEstimate.error ?? modelError}</div>}
+
+          <div className="edit-toolbar">
+            <button type="button" className="download-button" onClick={undo} disabled={!canUndo} title="Ctrl+Z">
+              Undo
+            </button>
+            <button type="button" className="download-button" onClick={redo} disabled={!canRedo} title="Ctrl+Shift+Z">
+              Redo
+            </button>
+            <select
+              aria-label="Edit mode"
+              value={editMode}
+              title="Op order mode places each GPU's ops as early as their dependencies allow"
+              onChange={(e) => setEditMode(e.target.value as 'grid' | 'order')}
+            >
+              <option value="grid">Edit cells</option>
+              <option value="order">Edit op order</option>
+            </select>
+            {editMode === 'grid' && (
+              <>
+                <span className="selection-label">
+                  GPU {selectedRange.gpuStart}{selectedRange.gpuEnd !== selectedRange.gpuStart && `–${selectedRange.gpuEnd}`},
+                  {' '}t{selectedRange.timeStart}{selectedRange.timeEnd !== selectedRange.timeStart && `–t${selectedRange.timeEnd}`}
+                </span>
+                <button type="button" className="download-button" onClick={handleDeleteSelection} title="Delete">
+                  Delete
+                </button>
+                <input
+                  type="number"
+                  className="fill-input"
+                  aria-label="Fill microbatch"
+                  min="0"
+                  value={fillValue}
+                  onChange={(e) => setFillValue(Math.max(0, Math.min(Number.MAX_SAFE_INTEGER, parseInt(e.target.value) || 0)))}
+                />
+                <button type="button" className="download-button" onClick={handleFillSelection}>
+                  Fill
+                </button>
+                <button type="button" className="download-button" onClick={() => handleShiftSelection(-1)} title="Alt+Left">
+                  ◀ Shift
+                </button>
+                <button type="button" className="download-button" onClick={() => handleShiftSelection(1)} title="Alt+Right">
+                  Shift ▶
+                </button>
+                <button type="button" className="download-button" onClick={handleFlipSelection}>
+                  Flip pass type
+                </button>
+              </>
+            )}
+          </div>
+
+          {editMode === 'grid' ? (
+            <div ref={gridScroll.ref} className="grid-container">
+              <div
+                className="grid-wrapper"
+                onKeyDown={handleGridKeyDown}
+                onCopy={handleGridCopy}
+                onCut={handleGridCut}
+                onPaste={handleGridPaste}
+              >
+                <div className="grid-header">
+                  <div className="corner-cell"></div>
+                  <div className="grid-spacer" style={{ width: gridColumns.start * GRID_CELL_WIDTH }} />
+                  {Array(Math.max(0, gridColumns.end - gridColumns.start)).fill(0).map((_, offset) => {
+                    const idx = gridColumns.start + offset
+                    return (
+                    <div
+                      key={idx}
+                      className={`header-cell ${idx === playback.timestep ? 'current' : ''}`}
+                      title="Move the playback cursor here"
+                      onClick={() => playback.seek(idx)}
+                    >
+                      t{idx}
+                    </div>
+                    )
+                  })}
+                  <div className="grid-spacer" style={{ width: (numTimesteps - gridColumns.end) * GRID_CELL_WIDTH }} />
+                </div>
+                <div className="grid-body" onMouseLeave={() => setHover(null)}>
+                  <div className="grid-spacer" style={{ height: gridRows.start * GRID_ROW_HEIGHT }} />
+                  {gridData.slice(gridRows.start, gridRows.end).map((row, offset) => {
+                    const gpuIdx = gridRows.start + offset
+                    const starts = cellStartsInRange(row, gridColumns.start, gridColumns.end)
+                    const renderedStart = starts[0] ?? 0
+                    const renderedEnd = starts.length > 0 ? starts[starts.length - 1] + getOperationDuration(row, starts[starts.length - 1]) : 0
+                    return (
+                    <div key={gpuIdx} className="grid-row">
+                      {parallel.dataParallel > 1 || parallel.tensorParallel > 1 ? (
+                        <div className="row-label" title="Pipeline stage; every data-parallel replica runs this row">
+                          pp{gpuIdx}
+                        </div>
+                      ) : (
+                        <div className="row-label" title={annotations.stageNames[gpuIdx]?.trim() ? `GPU ${gpuIdx}: ${stageLabel(annotations, gpuIdx)}` : undefined}>
+                          {stageLabel(annotations, gpuIdx)}
+                        </div>
+                      )}
+                      <div className="grid-spacer" style={{ width: renderedStart * GRID_CELL_WIDTH }} />
+                      {starts.map(timeIdx => {
+                        const cell = row[timeIdx]
+                        const duration = getOperationDuration(row, timeIdx)
+                        const position = { gpuIdx, timeIdx }
+                        const isSelected = gpuIdx >= selectedRange.gpuStart && gpuIdx <= selectedRange.gpuEnd
+                          && timeIdx <= selectedRange.timeEnd && timeIdx + duration - 1 >= selectedRange.timeStart
+                        // The cell hovered in the figure
+                        const isLinked = hover?.source === 'figure' && hover.cell.gpuIdx === gpuIdx
+                          && hover.cell.timeIdx >= timeIdx && hover.cell.timeIdx < timeIdx + duration
+                        const isDimmed = isolatedMicrobatch !== null && cell.value !== null && cell.value !== isolatedMicrobatch
+                        return (
+                        <input
+                          key={timeIdx}
+                          ref={(element) => {
+                            if (element) cellRefs.current.set(`${gpuIdx}-${timeIdx}`, element)
+                            else cellRefs.current.delete(`${gpuIdx}-${timeIdx}`)
+                          }}
+                          type="text"
+                          className={`grid-cell ${cell.value !== null ? 'filled' : 'empty'} ${cell.passType ? `pass-${cell.passType}` : ''} ${violationsByCell.has(`${gpuIdx}-${timeIdx}`) ? 'invalid' : ''} ${isSelected ? 'selected' : ''} ${isLinked ? 'linked' : ''} ${isDimmed ? 'dimmed' : ''} ${playback.timestep !== null && timeIdx > playback.timestep ? 'future' : ''}`}
+                          title={violationsByCell.get(`${gpuIdx}-${timeIdx}`)?.join('\n')}
+                          value={cell.value === null ? '' : formatCellLabel(cell.value, cell.chunk, showChunks)}
+                          style={{
+                            ...(cell.value !== null && cell.passType
+                              && opStyleCSS(getOpStyle(cell.value, cell.passType, appearance.colorScheme))),
+                            borderColor: cell.value !== null ? 'rgba(255,255,255,0.2)' : undefined,
+                            // Multi-timestep operations render as one wide cell
+                            width: cell.value !== null ? duration * GRID_CELL_WIDTH : undefined
+                          }}
+                          onChange={(e) => handleCellChange(gpuIdx, timeIdx, e.target.value)}
+                          onMouseDown={(e) => handleCellMouseDown(e, position)}
+                          onMouseEnter={(e) => handleCellMouseEnter(e, position)}
+                          onFocus={() => handleCellFocus(position)}
+                          placeholder="-"
+                        />
+                        )
+                      })}
+                      <div className="grid-spacer" style={{ width: (numTimesteps - renderedEnd) * GRID_CELL_WIDTH }} />
+                    </div>
+                    )
+                  })}
+                  <div className="grid-spacer" style={{ height: (numGPUs - gridRows.end) * GRID_ROW_HEIGHT }} />
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className="order-editor">
+              {orderInputs.map((input, gpuIdx) => (
+                <div key={gpuIdx} className="order-row">
+                  <div className="row-label">{stageLabel(annotations, gpuIdx)}</div>
+                  <div className="order-ops">
+                    <div className="order-chips">
+                      {opOrder[gpuIdx].map((op, index) => (
+                        <button
+                          key={index}
+                          type="button"
+                          className={`order-chip ${draggedOp?.gpuIdx === gpuIdx && draggedOp.index === index ? 'dragging' : ''}`}
+                          style={opStyleCSS(getOpStyle(op.microbatch, op.passType, appearance.colorScheme))}
+                          title="Drag, or Alt+Left / Alt+Right, to move this op"
+                          draggable
+                          onDragStart={() => setDraggedOp({ gpuIdx, index })}
+                          onDragEnd={() => setDraggedOp(null)}
+                          onDragOver={(e) => { if (draggedOp?.gpuIdx === gpuIdx) e.preventDefault() }}
+                          onDrop={() => draggedOp && handleMoveOp(gpuIdx, draggedOp.index, index)}
+                          onKeyDown={(e) => handleOpChipKeyDown(e, gpuIdx, index)}
+                        >
+                          {formatOpOrder([op])}
+                        </button>
+                      ))}
+                    </div>
+                    <input
+                      type="text"
+                      className="order-input"
+                      aria-label={`GPU ${gpuIdx} op order`}
+                      spellCheck={false}
+                      value={input}
+                      placeholder="F1 F2 B1 F3 B2 …"
+                      onChange={(e) => handleOrderInputChange(gpuIdx, e.target.value)}
+                    />
+                  </div>
+                </div>
+              ))}
+              {activeOrderDraft?.error && <div className="error-message">{activeOrderDraft.error}</div>}
+            </div>
+          )}
+          {violations.length > 0 && (
+            <ul className="violation-list">
+              {violations.map((violation, idx) => (
+                <li key={idx}>GPU {violation.gpuIdx}, t{violation.timeIdx}: {violation.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className="bottom-section">
+          <div className="playback-bar">
+            <button type="button" className="download-button" onClick={() => playback.step(-1)} title="Step back">
+              ◀◀
+            </button>
+            <button
+              type="button"
+              className="download-button"
+              onClick={playback.isPlaying ? playback.pause : playback.play}
+            >
+              {playback.isPlaying ? 'Pause' : 'Play'}
+            </button>
+            <button type="button" className="download-button" onClick={() => playback.step(1)} title="Step forward">
+              ▶▶
+            </button>
+            <input
+              type="range"
+              className="playback-scrubber"
+              aria-label="Playback position"
+              min="0"
+              max={timelineLength - 1}
+              value={playback.timestep ?? timelineLength - 1}
+              onChange={(e) => playback.seek(parseInt(e.target.value))}
+            />
+            <span className="selection-label">
+              {playback.timestep === null ? 'All timesteps' : `t${playback.timestep} / t${timelineLength - 1}`}
+            </span>
+            <select
+              aria-label="Playback speed"
+              value={playback.speed}
+              onChange={(e) => playback.setSpeed(Number(e.target.value))}
+            >
+              {PLAYBACK_SPEEDS.map(speed => (
+                <option key={speed} value={speed}>{speed} steps/s</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="download-button"
+              onClick={playback.stop}
+              disabled={playback.timestep === null}
+            >
+              Show all
+            </button>
+          </div>
+          <div className="flow-container">
+            {comparison && baseline ? (
+              <div className="comparison-view">
+                <h3>Baseline: {baseline.label}</h3>
+                <FigureViewer
+                  gridData={comparison.baselineGrid}
+                  numGPUs={comparison.baselineGrid.length}
+                  numTimesteps={comparison.baselineGrid[0].length}
+                  violations={comparison.baselineViolations}
+                  memoryConfig={baseline.memoryConfig}
+                  latencies={latencies}
+                  parallel={parallel}
+                  colorScheme={appearance.colorScheme}
+                  background={figureBackground}
+                  playhead={playback.timestep}
+                  diff={showDiff ? comparison.diff.baseline : undefined}
+                  isolate={isolatedMicrobatch}
+                />
+                <h3>Current</h3>
+                <FigureViewer
+                  gridData={comparison.currentGrid}
+                  numGPUs={comparison.currentGrid.length}
+                  numTimesteps={comparison.currentGrid[0].length}
+                  violations={violations}
+                  memoryConfig={memoryConfig}
+                  latencies={latencies}
+                  parallel={parallel}
+                  colorScheme={appearance.colorScheme}
+                  background={figureBackground}
+                  playhead={playback.timestep}
+                  diff={showDiff ? comparison.diff.current : undefined}
+                  annotations={annotations}
+                  highlight={hover?.cell ?? null}
+                  isolate={isolatedMicrobatch}
+                  onHoverCell={handleFigureHover}
+                  onCellClick={handleFigureClick}
+                />
+              </div>
+            ) : tiled?.result ? (
+              <FigureViewer
+                gridData={tiled.result.gridData}
+                numGPUs={numGPUs}
+                numTimesteps={timelineLength}
+                violations={tiled.violations}
+                memoryConfig={memoryConfig}
+                latencies={latencies}
+                parallel={parallel}
+                colorScheme={appearance.colorScheme}
+                background={figureBackground}
+                playhead={playback.timestep}
+                iterations={tiled.result.view}
+                annotations={annotations}
+                highlight={hover?.cell ?? null}
+                isolate={isolatedMicrobatch}
+                onHoverCell={handleFigureHover}
+                onCellClick={handleFigureClick}
+              />
+            ) : whatIf?.result ? (
+              <FigureViewer
+                gridData={whatIf.result.gridData}
+                numGPUs={numGPUs}
+                numTimesteps={timelineLength}
+                violations={whatIf.violations}
+                memoryConfig={memoryConfig}
+                latencies={latencies}
+                parallel={parallel}
+                colorScheme={appearance.colorScheme}
+                background={figureBackground}
+                playhead={playback.timestep}
+                ghost={gridData}
+                annotations={annotations}
+                highlight={hover?.cell ?? null}
+                isolate={isolatedMicrobatch}
+                onHoverCell={handleFigureHover}
+                onCellClick={handleFigureClick}
+              />
+            ) : (
+              <FigureViewer
+                gridData={gridData}
+                numGPUs={numGPUs}
+                numTimesteps={numTimesteps}
+                violations={violations}
+                memoryConfig={memoryConfig}
+                latencies={latencies}
+                parallel={parallel}
+                colorScheme={appearance.colorScheme}
+                background={figureBackground}
+                playhead={playback.timestep}
+                highlight={hover?.cell ?? null}
+                isolate={isolatedMicrobatch}
+                annotations={annotations}
+                onHoverCell={handleFigureHover}
+                onCellClick={handleFigureClick}
+              />
+            )}
+            <div className="bottom-controls">
+              <div className="control-group">
+                <label htmlFor="isolated-microbatch">Microbatch path:</label>
+                <div className="button-row">
+                  <input
+                    id="isolated-microbatch"
+                    type="number"
+                    min={0}
+                    placeholder="Click a pass"
+                    value={isolatedMicrobatch ?? ''}
+                    onChange={(e) => setIsolatedMicrobatch(e.target.value === '' ? null : Number(e.target.value))}
+                  />
+                  <button
+                    type="button"
+                    className="download-button"
+                    onClick={() => setIsolatedMicrobatch(null)}
+                    disabled={isolatedMicrobatch === null}
+                  >
+                    Clear
+                  </button>
+                </div>
+                {microbatchPath
+                  ? <MicrobatchPathPanel path={microbatchPath} />
+                  : isolatedMicrobatch !== null && <div className="error-message">Microbatch {isolatedMicrobatch} has no passes</div>}
+              </div>
+              <div className="control-group">
+                <label>Pipeline metrics (timesteps):</label>
+                <MetricsPanel metrics={metrics} commOverlap={commOverlap} stepTime={stepTime} />
+              </div>
+              {costEstimate.estimate && costReport && (
+                <div className="control-group">
+                  <label>Cost model:</label>
+                  <CostModelPanel estimate={costEstimate.estimate} report={costReport} />
+                </div>
+              )}
+              {tiled?.result && (
+                <div className="control-group">
+                  <label>Steady state over {iterationConfig.numIterations} iterations:</label>
+                  <IterationsPanel tiled={tiled.result} />
+                </div>
+              )}
+              <div className="control-group">
+                <label>Compare:</label>
+                <div className="button-row">
+                  <button type="button" className="download-button" onClick={handlePinBaseline}>
+                    Pin as baseline
+                  </button>
+                  <button type="button" className="download-button" onClick={() => baselineInputRef.current?.click()}>
+                    Load baseline…
+                  </button>
+                  <input
+                    ref={baselineInputRef}
+                    type="file"
+                    accept="application/json,.json"
+                    hidden
+                    onChange={(e) => handleLoadBaseline(e.target.files?.[0])}
+                  />
+                </div>
+                {comparison && (
+                  <>
+                    <label className="checkbox-label">
+                      <input type="checkbox" checked={showDiff} onChange={(e) => setShowDiff(e.target.checked)} />
+                      Highlight differences
+                    </label>
+                    {showDiff && (
+                      <div className="diff-legend">
+                        {(Object.keys(CELL_CHANGE_COLORS) as CellChange[]).map(change => (
+                          <span key={change} style={{ borderColor: CELL_CHANGE_COLORS[change] }}>{change}</span>
+                        ))}
+                      </div>
+                    )}
+                    <ComparisonTable rows={comparison.rows} />
+                    <button type="button" className="download-button" onClick={() => setBaseline(null)}>
+                      Stop comparing
+                    </button>
+                  </>
+                )}
+              </div>
+              <div className="control-group">
+                <label htmlFor="activation-gb">Activations / microbatch (GB):</label>
+                <input
+                  id="activation-gb"
+                  type="text"
+                  className={`text-input ${parseStageGB(activationInput) ? '' : 'invalid'}`}
+                  value={activationInput}
+                  title="One value for every stage, or a comma-separated value per stage"
+                  onChange={(e) => handleActivationChange(e.target.value)}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="weight-gb">Weights (GB):</label>
+                <input
+                  id="weight-gb"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={memoryConfig.weightBytes / BYTES_PER_GB}
+                  onChange={(e) => handleMemoryGBChange('weightBytes', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="optimizer-gb">Optimizer state (GB):</label>
+                <input
+                  id="optimizer-gb"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={memoryConfig.optimizerBytes / BYTES_PER_GB}
+                  onChange={(e) => handleMemoryGBChange('optimizerBytes', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="capacity-gb">Device capacity (GB):</label>
+                <input
+                  id="capacity-gb"
+                  type="number"
+                  min="0"
+                  step="any"
+                  value={memoryConfig.capacityBytes / BYTES_PER_GB}
+                  onChange={(e) => handleMemoryGBChange('capacityBytes', parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="color-scheme">Colors:</label>
+                <select
+                  id="color-scheme"
+                  value={appearance.colorScheme}
+                  onChange={(e) => setAppearance({ ...appearance, colorScheme: e.target.value as ColorScheme })}
+                >
+                  {(Object.keys(COLOR_SCHEME_LABELS) as ColorScheme[]).map(scheme => (
+                    <option key={scheme} value={scheme}>{COLOR_SCHEME_LABELS[scheme]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="control-group">
+                <label htmlFor="figure-theme">Figure theme:</label>
+                <select
+                  id="figure-theme"
+                  value={appearance.theme}
+                  onChange={(e) => setAppearance({ ...appearance, theme: e.target.value as FigureTheme })}
+                >
+                  <option value="dark">Dark</option>
+                  <option value="light">Light</option>
+                </select>
+              </div>
+              <div className="control-group">
+                <label htmlFor="figure-title">Figure title:</label>
+                <input
+                  id="figure-title"
+                  className="text-input annotation-input"
+                  type="text"
+                  maxLength={MAX_ANNOTATION_LENGTH}
+                  placeholder="None"
+                  value={annotations.title}
+                  onChange={(e) => setAnnotations({ ...annotations, title: e.target.value })}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="stage-names">Stage names (one per GPU):</label>
+                <textarea
+                  id="stage-names"
+                  rows={Math.min(numGPUs, 6)}
+                  placeholder={'Embed + L0-7\nL8-15'}
+                  value={annotations.stageNames.join('\n')}
+                  onChange={(e) => setAnnotations({
+                    ...annotations,
+                    stageNames: e.target.value.split('\n').slice(0, numGPUs).map(name => name.slice(0, MAX_ANNOTATION_LENGTH)),
+                  })}
+                />
+              </div>
+              <div className="control-group">
+                <label htmlFor="cell-note">Note on GPU {noteCell.gpuIdx}, t{noteCell.timeIdx}:</label>
+                <div className="button-row">
+                  <input
+                    id="cell-note"
+                    className="text-input annotation-input"
+                    type="text"
+                    maxLength={MAX_ANNOTATION_LENGTH}
+                    placeholder="Select a cell, then type"
+                    value={noteText}
+                    onChange={(e) => setNoteDraft({ cell: noteCell, text: e.target.value })}
+                    onKeyDown={(e) => e.key === 'Enter' && handleSaveNote()}
+                  />
+                  <button type="button" className="download-button" onClick={handleSaveNote}>
+                    {noteText.trim() || !annotations.notes.some(isNoteCell) ? 'Save note' : 'Remove note'}
+                  </button>
+                </div>
+              </div>
+              <div className="control-group">
+                <label>Figure annotations:</label>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={annotations.showPhases}
+                    onChange={(e) => setAnnotations({ ...annotations, showPhases: e.target.checked })}
+                  />
+                  Warmup / steady / cooldown brackets
+                </label>
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={annotations.showLegend}
+                    onChange={(e) => setAnnotations({ ...annotations, showLegend: e.target.checked })}
+                  />
+                  Legend
+                </label>
+              </div>
+              <div className="control-group">
+                <button 
+                  className="download-button"
+                  onClick={() => setIsExportOpen(true)}
+                  type="button"
+                >
+                  Export figure…
+                </button>
+              </div>
+              <div className="control-group">
+                <button
+                  className="download-button"
+                  onClick={handleExportJSON}
+                  type="button"
+                >
+                  Export JSON
+                </button>
+                <button
+                  className="download-button"
+                  onClick={() => fileInputRef.current?.click()}
+                  type="button"
+                >
+                  Import JSON
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="application/json,.json"
+                  hidden
+                  onChange={(e) => handleImportJSON(e.target.files?.[0])}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+      {isExportOpen && (
+        <ExportDialog
+          {...mainFigure}
+          numGPUs={figureGrid.length}
+          numTimesteps={figureGrid[0].length}
+          memoryConfig={memoryConfig}
+          latencies={latencies}
+          parallel={parallel}
+          colorScheme={appearance.colorScheme}
+          annotations={annotations}
+          options={exportOptions}
+          onOptionsChange={setExportOptions}
+          onClose={() => setIsExportOpen(false)}
+        />
+      )}
+      {hover && hoveredCell && hoverMemory && (
+        <div className="cell-tooltip" style={{ left: hover.x + 12, top: hover.y + 12 }}>
+          <div>GPU {hover.cell.gpuIdx}, timestep {hover.cell.timeIdx}</div>
+          <div>
+            {hoveredCell.value === null || !hoveredCell.passType ? 'Idle'
+              : hoveredCell.passType === 'optimizer' ? PASS_TYPE_LABELS.optimizer
+              : `${PASS_TYPE_LABELS[hoveredCell.passType]} of microbatch ${hoveredCell.value}${(hoveredCell.chunk ?? 0) > 0 ? `, chunk ${chunkLetter(hoveredCell.chunk!)}` : ''}`}
+          </div>
+          {hoveredIteration !== null && <div>Iteration {hoveredIteration}</div>}
+          <div>
+            {formatGB(hoverMemory.bytes[hover.cell.gpuIdx][hover.cell.timeIdx])} in use,{' '}
+            {hoverMemory.batches[hover.cell.gpuIdx][hover.cell.timeIdx]} microbatches in memory
+          </div>
+        </div>
+      )}
     </div>
   )
 }
@@ -0,0 +1,59 @@
+/**
+ * Free text written next to one cell of the schedule
+ */
+export type CellNote = {
+  gpuIdx: number
+  timeIdx: number
+  text: string
+}
+
+/**
+ * Labels added on top of the schedule for figures, saved with it so exports need no touching up
+ */
+export type Annotations = {
+  // Drawn above the figure; empty for none
+  title: string
+  // Row labels by GPU, e.g. "Embed + L0-7"; missing or empty names keep "GPU n"
+  stageNames: string[]
+  notes: CellNote[]
+  // Warmup, steady state and cooldown brackets above the timeline
+  showPhases: boolean
+  // Key to the pass types and other marks below the figure
+  showLegend: boolean
+}
+
+export const DEFAULT_ANNOTATIONS: Annotations = {
+  title: '',
+  stageNames: [],
+  notes: [],
+  showPhases: false,
+  showLegend: false,
+}
+
+// Longest title, stage name or note, so a stray paste can't swamp the figure
+export const MAX_ANNOTATION_LENGTH = 200
+
+/**
+ * Row label of a GPU, its stage name if one is set
+ */
+export function stageLabel(annotations: Annotations, gpuIdx: number): string {
+  return annotations.stageNames[gpuIdx]?.trim() || `GPU ${gpuIdx}`
+}
+
+/**
+ * Notes on cells that are still in a grid of the given size, in reading order: by GPU, then by time
+ */
+export function notesInGrid(annotations: Annotations, numGPUs: number, numTimesteps: number): CellNote[] {
+  return annotations.notes
+    .filter(note => note.gpuIdx < numGPUs && note.timeIdx < numTimesteps)
+    .sort((a, b) => a.gpuIdx - b.gpuIdx || a.timeIdx - b.timeIdx)
+}
+
+/**
+ * Adds a note to a cell, replacing the cell's note if it has one; empty text removes it
+ */
+export function setCellNote(annotations: Annotations, gpuIdx: number, timeIdx: number, text: string): Annotations {
+  const notes = annotations.notes.filter(note => note.gpuIdx !== gpuIdx || note.timeIdx !== timeIdx)
+  const trimmed = text.trim().slice(0, MAX_ANNOTATION_LENGTH)
+  return { ...annotations, notes: trimmed ? [...notes, { gpuIdx, timeIdx, text: trimmed }] : notes }
+}
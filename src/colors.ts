@@ -0,0 +1,129 @@
+import type { PassType } from './utils'
+
+// Classic steps the hue per microbatch; the others cycle through a fixed set of distinct colors
+export type ColorScheme = 'classic' | 'categorical' | 'colorblind' | 'grayscale'
+
+// Palettes are finite, so the labels say how many microbatches in a row get colors of their own
+export const COLOR_SCHEME_LABELS: Record<ColorScheme, string> = {
+  classic: 'Classic rainbow',
+  categorical: 'Categorical (repeats after 20)',
+  colorblind: 'Colorblind-safe (repeats after 14)',
+  grayscale: 'Grayscale (print, repeats after 5)',
+}
+
+// Background of the figure; the editor follows the page and is unaffected
+export type FigureTheme = 'dark' | 'light'
+
+/**
+ * How the schedule is drawn, saved with it so a shared link or file looks the same everywhere
+ */
+export type Appearance = {
+  colorScheme: ColorScheme
+  theme: FigureTheme
+}
+
+export const DEFAULT_APPEARANCE: Appearance = {
+  colorScheme: 'categorical',
+  theme: 'dark',
+}
+
+// Lines drawn over an operation's fill so pass types differ by more than their color
+export type Hatch = 'diagonal' | 'cross' | 'horizontal'
+
+/**
+ * Everything needed to draw one operation, shared by the editor grid and every figure format
+ */
+export type OpStyle = {
+  fill: string
+  // Color of the microbatch itself, for arrows and sends leaving the operation
+  accent: string
+  hatch: Hatch | null
+  hatchColor: string
+  // Label color that stays readable on the fill
+  text: string
+}
+
+const OPTIMIZER_COLOR = '#6b7280'
+
+// Tableau 10
+const CATEGORICAL_COLORS = ['#4e79a7', '#f28e2b', '#e15759', '#76b7b2', '#59a14f', '#edc948', '#b07aa1', '#ff9da7', '#9c755f', '#bab0ac']
+// Okabe and Ito, without black so labels stay readable
+const COLORBLIND_COLORS = ['#e69f00', '#56b4e9', '#009e73', '#f0e442', '#0072b2', '#d55e00', '#cc79a7']
+const GRAYSCALE_COLORS = ['#3a3a3a', '#6a6a6a', '#8f8f8f', '#b3b3b3', '#d0d0d0']
+
+// Black mixed into a palette's colors on every other pass through it, so a microbatch doesn't share
+// its color with the one a palette length later. Grays would only land on each other's shades.
+const ALTERNATE_CYCLE_SHADE = 0.35
+
+// Colorblind-safe and print schemes tell passes apart by pattern; hue or shade alone isn't enough
+const PASS_HATCHES: Partial<Record<PassType, Hatch>> = {
+  backward: 'diagonal',
+  weight: 'cross',
+  recompute: 'horizontal',
+}
+
+// Share of white mixed into the microbatch color for each pass; forward is the color itself
+const PASS_TINTS: Record<PassType, number> = {
+  forward: 0,
+  backward: 0.45,
+  weight: 0.7,
+  recompute: 0.25,
+  optimizer: 0,
+}
+
+const toRGB = (hex: string) => [1, 3, 5].map(start => parseInt(hex.slice(start, start + 2), 16))
+
+/**
+ * Mixes a #rrggbb color with another; amount 0 keeps the first and 1 gives the second
+ */
+function mixColors(hex: string, other: string, amount: number): string {
+  const [a, b] = [toRGB(hex), toRGB(other)]
+  return '#' + a.map((channel, idx) => Math.round(channel + (b[idx] - channel) * amount).toString(16).padStart(2, '0')).join('')
+}
+
+// Dark text on light fills, using relative luminance
+function textColorOn(hex: string): string {
+  const [r, g, b] = toRGB(hex).map(channel => {
+    const value = channel / 255
+    return value <= 0.03928 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.4 ? '#1a1a1a' : '#ffffff'
+}
+
+/**
+ * The original look: a rainbow hue per microbatch, with passes told apart by lightness
+ */
+function classicStyle(batchNumber: number, passType: PassType): OpStyle {
+  // Create a rainbow-ordered hue starting from Green (120)
+  // Using a 50-degree step to hit Green (120), Blue (approx 220), Indigo (270), Violet (320)
+  const hue = (120 + ((batchNumber - 1) * 50)) % 360
+
+  // Forward pass is darker, backward pass is lighter and W lighter still. Recompute repeats the
+  // forward, washed out.
+  const saturation = passType === 'recompute' ? 30 : 70
+  const lightness = passType === 'forward' || passType === 'recompute' ? 40 : passType === 'weight' ? 75 : 60
+
+  const fill = `hsl(${hue}, ${saturation}%, ${lightness}%)`
+  return { fill, accent: fill, hatch: null, hatchColor: fill, text: '#ffffff' }
+}
+
+/**
+ * Style of an operation of the given microbatch and pass type under a color scheme
+ */
+export function getOpStyle(batchNumber: number, passType: PassType, scheme: ColorScheme = DEFAULT_APPEARANCE.colorScheme): OpStyle {
+  // Optimizer steps belong to no microbatch
+  if (passType === 'optimizer') {
+    return { fill: OPTIMIZER_COLOR, accent: OPTIMIZER_COLOR, hatch: null, hatchColor: OPTIMIZER_COLOR, text: '#ffffff' }
+  }
+  if (scheme === 'classic') return classicStyle(batchNumber, passType)
+
+  const colors = scheme === 'colorblind' ? COLORBLIND_COLORS : scheme === 'grayscale' ? GRAYSCALE_COLORS : CATEGORICAL_COLORS
+  const index = ((Math.round(batchNumber) - 1) % colors.length + colors.length) % colors.length
+  const isAlternateCycle = Math.floor((Math.round(batchNumber) - 1) / colors.length) % 2 !== 0
+  const base = isAlternateCycle && scheme !== 'grayscale'
+    ? mixColors(colors[index], '#000000', ALTERNATE_CYCLE_SHADE)
+    : colors[index]
+  const fill = mixColors(base, '#ffffff', PASS_TINTS[passType])
+  const hatch = scheme === 'categorical' ? null : PASS_HATCHES[passType] ?? null
+  return { fill, accent: base, hatch, hatchColor: mixColors(base, '#000000', 0.45), text: textColorOn(fill) }
+}
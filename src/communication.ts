@@ -0,0 +1,67 @@
+import { type CommLatencies, type GridData, type PassType, transferLatency } from './utils'
+import { resolveSchedule } from './validation'
+
+/**
+ * A point-to-point send of activations (after a forward) or gradients (after a backward)
+ * between stages on different GPUs
+ */
+export type Transfer = {
+  microbatch: number
+  // Pass that produced the data being sent
+  passType: PassType
+  fromGPU: number
+  toGPU: number
+  sendTime: number
+  arrivalTime: number
+  // When the receiving op starts
+  receiveTime: number
+}
+
+/**
+ * Lists every send a schedule needs. Sends with zero latency are included so callers can
+ * still draw and count them.
+ */
+export function getTransfers(gridData: GridData, latencies: CommLatencies): Transfer[] {
+  const transfers: Transfer[] = []
+  resolveSchedule(gridData).forEach(op => {
+    const from = op.dependency
+    if (!from || from.gpuIdx === op.gpuIdx) return
+    const sendTime = from.timeIdx + from.duration
+    transfers.push({
+      microbatch: op.microbatch,
+      passType: from.passType,
+      fromGPU: from.gpuIdx,
+      toGPU: op.gpuIdx,
+      sendTime,
+      arrivalTime: sendTime + transferLatency(latencies, from.passType),
+      receiveTime: op.timeIdx,
+    })
+  })
+  return transfers
+}
+
+export type GPUCommMetrics = {
+  gpuIdx: number
+  // Timesteps of incoming transfers
+  commTime: number
+  // Of those, the timesteps this GPU spent computing anyway
+  hiddenTime: number
+}
+
+/**
+ * Measures how much of each GPU's incoming communication overlaps its own compute. The
+ * exposed remainder is time the GPU could only have spent waiting.
+ */
+export function computeCommOverlap(gridData: GridData, latencies: CommLatencies): GPUCommMetrics[] {
+  const metrics = gridData.map((_, gpuIdx) => ({ gpuIdx, commTime: 0, hiddenTime: 0 }))
+  getTransfers(gridData, latencies).forEach(transfer => {
+    const row = gridData[transfer.toGPU]
+    const gpu = metrics[transfer.toGPU]
+    for (let t = transfer.sendTime; t < transfer.arrivalTime; t++) {
+      gpu.commTime++
+      const cell = row[t]
+      if (cell && cell.value !== null) gpu.hiddenTime++
+    }
+  })
+  return metrics
+}
@@ -0,0 +1,117 @@
+import { type GridData, type Operation, calculateBlankCount, getOperations, maxOf } from './utils'
+import { type MemoryConfig, computeMemoryBytes } from './memory'
+import { computeMetrics } from './metrics'
+
+// How an operation differs from its counterpart in the other schedule
+export type CellChange = 'moved' | 'added' | 'removed'
+
+export const CELL_CHANGE_COLORS: Record<CellChange, string> = {
+  moved: '#ffb020',
+  added: '#3ecf5a',
+  removed: '#e05cff',
+}
+
+/**
+ * Changes keyed by `${gpuIdx}-${timeIdx}` of each operation's first cell, one map per schedule
+ */
+export type ScheduleDiff = {
+  baseline: Map<string, CellChange>
+  current: Map<string, CellChange>
+}
+
+/**
+ * Pads a grid with empty GPUs and timesteps so two schedules share the same axes
+ */
+export function padGrid(gridData: GridData, numGPUs: number, numTimesteps: number): GridData {
+  return Array(numGPUs).fill(null).map((_, gpuIdx) =>
+    Array(numTimesteps).fill(null).map((_, timeIdx) =>
+      gridData[gpuIdx]?.[timeIdx] ?? { value: null, passType: null }
+    )
+  )
+}
+
+/**
+ * Pads both grids to the larger of their sizes
+ */
+export function alignGrids(baseline: GridData, current: GridData): [GridData, GridData] {
+  const numGPUs = Math.max(baseline.length, current.length)
+  const numTimesteps = Math.max(baseline[0]?.length ?? 0, current[0]?.length ?? 0)
+  return [padGrid(baseline, numGPUs, numTimesteps), padGrid(current, numGPUs, numTimesteps)]
+}
+
+/**
+ * Keys an operation by what it computes rather than when: its GPU, microbatch, pass type, chunk
+ * and how many times that combination came before on the GPU
+ */
+function keyOperations(operations: Operation[]): Map<string, Operation> {
+  const seen = new Map<string, number>()
+  const keyed = new Map<string, Operation>()
+  operations.forEach(op => {
+    const base = `${op.gpuIdx}-${op.value}-${op.passType}-${op.chunk}`
+    const occurrence = seen.get(base) ?? 0
+    seen.set(base, occurrence + 1)
+    keyed.set(`${base}-${occurrence}`, op)
+  })
+  return keyed
+}
+
+/**
+ * Matches operations between two schedules. An operation present in both but at a different
+ * time or with a different duration has moved; the rest appeared in or disappeared from the
+ * current schedule.
+ */
+export function diffSchedules(baseline: GridData, current: GridData): ScheduleDiff {
+  const baselineOps = keyOperations(getOperations(baseline))
+  const currentOps = keyOperations(getOperations(current))
+  const diff: ScheduleDiff = { baseline: new Map(), current: new Map() }
+  const cellKey = (op: Operation) => `${op.gpuIdx}-${op.timeIdx}`
+
+  baselineOps.forEach((op, key) => {
+    const match = currentOps.get(key)
+    if (!match) {
+      diff.baseline.set(cellKey(op), 'removed')
+    } else if (match.timeIdx !== op.timeIdx || match.duration !== op.duration) {
+      diff.baseline.set(cellKey(op), 'moved')
+      diff.current.set(cellKey(match), 'moved')
+    }
+  })
+  currentOps.forEach((op, key) => {
+    if (!baselineOps.has(key)) diff.current.set(cellKey(op), 'added')
+  })
+
+  return diff
+}
+
+export type ComparisonRow = {
+  label: string
+  baseline: number
+  current: number
+  // Whether the value is in bytes rather than timesteps or cells
+  isBytes?: boolean
+}
+
+/**
+ * Makespan, bubble count and per-GPU peak memory of two aligned schedules, side by side
+ */
+export function compareSchedules(
+  baseline: GridData,
+  current: GridData,
+  baselineMemory: MemoryConfig,
+  currentMemory: MemoryConfig
+): ComparisonRow[] {
+  const peak = (gridData: GridData, config: MemoryConfig) =>
+    computeMemoryBytes(gridData, config).map(row => maxOf(row, 0))
+  const baselinePeak = peak(baseline, baselineMemory)
+  const currentPeak = peak(current, currentMemory)
+
+  return [
+    { label: 'Makespan', baseline: computeMetrics(baseline).makespan, current: computeMetrics(current).makespan },
+    { label: 'Bubble cells', baseline: calculateBlankCount(baseline), current: calculateBlankCount(current) },
+    ...baselinePeak.map((bytes, gpuIdx) => ({
+      label: `GPU ${gpuIdx} peak`,
+      baseline: bytes,
+      current: currentPeak[gpuIdx],
+      isBytes: true,
+    })),
+  ]
+}
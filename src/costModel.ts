@@ -0,0 +1,240 @@
+import { type CommLatencies, type GridData, getOperations, maxOf } from './utils'
+import { type MemoryConfig } from './memory'
+import { type OrderedOp, extractOpOrder, placeOpOrder } from './schedules'
+
+export type Precision = 'fp32' | 'bf16' | 'fp8'
+
+export const PRECISION_LABELS: Record<Precision, string> = {
+  fp32: 'FP32',
+  bf16: 'BF16 mixed',
+  fp8: 'FP8 mixed',
+}
+
+/**
+ * A GPT-style decoder-only transformer and the device it trains on, as far as timings and memory
+ * depend on them
+ */
+export type ModelConfig = {
+  numLayers: number
+  hiddenSize: number
+  seqLength: number
+  microbatchSize: number
+  vocabSize: number
+  precision: Precision
+  // Transformer layers on each GPU's stage; empty splits them evenly. The first stage also holds
+  // the embedding and the last the output layer.
+  layersPerStage: number[]
+  // Dense peak of one GPU at the model's precision
+  peakTFLOPs: number
+  // Share of the peak the model's kernels actually reach
+  efficiency: number
+  // Timesteps the slowest stage's forward takes, which sets how long a timestep is
+  forwardTimesteps: number
+}
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+  numLayers: 24,
+  hiddenSize: 2048,
+  seqLength: 2048,
+  microbatchSize: 1,
+  vocabSize: 50257,
+  precision: 'bf16',
+  layersPerStage: [],
+  peakTFLOPs: 989,
+  efficiency: 0.5,
+  forwardTimesteps: 2,
+}
+
+// Upper bounds for the numeric fields, shared by the editor and file validation
+export const MODEL_LIMITS = {
+  numLayers: 1024,
+  hiddenSize: 65536,
+  seqLength: 1048576,
+  microbatchSize: 1024,
+  vocabSize: 1048576,
+  peakTFLOPs: 100000,
+  forwardTimesteps: 100,
+}
+
+// Bytes of a weight, of its gradient, and of optimizer state per parameter under Adam. Mixed
+// precision keeps an FP32 master copy of the weights with the two moments.
+const BYTES_PER_PARAMETER: Record<Precision, { weight: number; gradient: number; optimizer: number }> = {
+  fp32: { weight: 4, gradient: 4, optimizer: 8 },
+  bf16: { weight: 2, gradient: 2, optimizer: 12 },
+  fp8: { weight: 1, gradient: 2, optimizer: 12 },
+}
+
+// Activation bytes a layer keeps per token and hidden unit with 16-bit activations and fused
+// attention, which stores no sequence-by-sequence scores (Korthikanti et al., 2022)
+const ACTIVATION_BYTES_PER_ELEMENT = 34
+
+/**
+ * What one microbatch costs on one stage, and what the stage holds in memory
+ */
+export type StageCost = {
+  layers: number
+  forwardFLOPs: number
+  // Input and weight gradients together, twice the forward
+  backwardFLOPs: number
+  forwardTimesteps: number
+  backwardTimesteps: number
+  // Weights and their gradients
+  weightBytes: number
+  optimizerBytes: number
+  // Kept by each microbatch from its forward until its backward
+  activationBytes: number
+}
+
+export type CostEstimate = {
+  stages: StageCost[]
+  timestepSeconds: number
+  // Forward and backward FLOPs of one microbatch through the whole model, recompute excluded
+  modelFLOPsPerMicrobatch: number
+}
+
+/**
+ * Layers per stage: the configured split, or an even one with the remainder going to the first
+ * stages, as the last already carries the output layer. Throws if the split doesn't match the
+ * model or the pipeline.
+ */
+export function partitionLayers(model: ModelConfig, numStages: number): number[] {
+  if (model.layersPerStage.length === 0) {
+    return Array.from({ length: numStages }, (_, stage) =>
+      Math.floor(model.numLayers / numStages) + (stage < model.numLayers % numStages ? 1 : 0)
+    )
+  }
+  if (model.layersPerStage.length !== numStages) {
+    throw new Error(`The layer split lists ${model.layersPerStage.length} stages, but the pipeline has ${numStages}`)
+  }
+  const total = model.layersPerStage.reduce((sum, layers) => sum + layers, 0)
+  if (total !== model.numLayers) {
+    throw new Error(`The layer split adds up to ${total} layers, but the model has ${model.numLayers}`)
+  }
+  return model.layersPerStage
+}
+
+/**
+ * Parses a comma-separated list of whole layer counts, one per stage. Blank means an even split;
+ * returns null if any entry isn't a non-negative integer.
+ */
+export function parseLayerSplit(text: string): number[] | null {
+  const values = text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number)
+  if (values.some(value => !Number.isInteger(value) || value < 0)) return null
+  return values
+}
+
+/**
+ * Derives each stage's forward and backward durations and memory from the model, using the
+ * usual dense transformer counts: 24bsh² + 4bs²h FLOPs per layer forward, 2bshv for the output
+ * layer, and a backward twice the forward. Durations are rounded to whole timesteps, at least one.
+ */
+export function estimateStageCosts(model: ModelConfig, numStages: number): CostEstimate {
+  const { hiddenSize: h, seqLength: s, microbatchSize: b, vocabSize: v } = model
+  const layers = partitionLayers(model, numStages)
+  const bytes = BYTES_PER_PARAMETER[model.precision]
+  const activationScale = model.precision === 'fp32' ? 2 : 1
+  const flopsPerSecond = model.peakTFLOPs * 1e12 * model.efficiency
+
+  const layerFLOPs = 24 * b * s * h * h + 4 * b * s * s * h
+  const outputFLOPs = 2 * b * s * h * v
+  const layerParameters = 12 * h * h + 13 * h
+  const embeddingParameters = v * h + s * h
+
+  const stageFLOPs = layers.map((count, stage) => count * layerFLOPs + (stage === numStages - 1 ? outputFLOPs : 0))
+  const timestepSeconds = Math.max(...stageFLOPs) / flopsPerSecond / model.forwardTimesteps
+  const toTimesteps = (flops: number) => Math.max(1, Math.round(flops / flopsPerSecond / timestepSeconds))
+
+  const stages = layers.map((count, stage): StageCost => {
+    const isFirst = stage === 0
+    const isLast = stage === numStages - 1
+    // Untied output weights, so the last stage keeps its own copy of the vocabulary projection
+    const parameters = count * layerParameters + (isFirst ? embeddingParameters : 0) + (isLast ? v * h + 2 * h : 0)
+    const activations = count * ACTIVATION_BYTES_PER_ELEMENT * activationScale * b * s * h
+      // Logits stay in FP32 for the loss
+      + (isLast ? 4 * b * s * v : 0)
+    return {
+      layers: count,
+      forwardFLOPs: stageFLOPs[stage],
+      backwardFLOPs: 2 * stageFLOPs[stage],
+      forwardTimesteps: toTimesteps(stageFLOPs[stage]),
+      backwardTimesteps: toTimesteps(2 * stageFLOPs[stage]),
+      weightBytes: parameters * (bytes.weight + bytes.gradient),
+      optimizerBytes: parameters * bytes.optimizer,
+      activationBytes: activations,
+    }
+  })
+
+  return {
+    stages,
+    timestepSeconds,
+    modelFLOPsPerMicrobatch: 3 * (model.numLayers * layerFLOPs + outputFLOPs),
+  }
+}
+
+/**
+ * Memory config with each stage's activations, and the static memory of the stage that holds
+ * the most, since every GPU shares one weight and optimizer figure
+ */
+export function costMemoryConfig(estimate: CostEstimate, memoryConfig: MemoryConfig): MemoryConfig {
+  const heaviest = estimate.stages.reduce((most, stage) =>
+    stage.weightBytes + stage.optimizerBytes > most.weightBytes + most.optimizerBytes ? stage : most
+  )
+  return {
+    ...memoryConfig,
+    activationBytes: estimate.stages.map(stage => stage.activationBytes),
+    weightBytes: heaviest.weightBytes,
+    optimizerBytes: heaviest.optimizerBytes,
+  }
+}
+
+/**
+ * Replays the schedule's op order with the estimated durations. Forward and recompute passes
+ * take the stage's forward time; a backward split into B and W gives each half the backward.
+ * Chunks of an interleaved schedule split their GPU's time evenly, and optimizer steps keep
+ * their length. Throws like placeOpOrder when the order can't be replayed.
+ */
+export function applyStageCosts(gridData: GridData, estimate: CostEstimate, latencies: CommLatencies): GridData {
+  const orders = extractOpOrder(gridData)
+  if (orders.every(order => order.length === 0)) throw new Error('The schedule has no passes to time')
+  const numChunks = maxOf(orders.flat().map(op => op.chunk), 0) + 1
+  const hasWeightPasses = orders.some(order => order.some(op => op.passType === 'weight'))
+  const share = (timesteps: number, parts: number) => Math.max(1, Math.round(timesteps / parts))
+
+  return placeOpOrder(orders.map((order, gpuIdx) => order.map((op): OrderedOp => {
+    const stage = estimate.stages[Math.min(gpuIdx, estimate.stages.length - 1)]
+    switch (op.passType) {
+      case 'forward':
+      case 'recompute':
+        return { ...op, duration: share(stage.forwardTimesteps, numChunks) }
+      case 'backward':
+      case 'weight':
+        return { ...op, duration: share(stage.backwardTimesteps, numChunks * (hasWeightPasses ? 2 : 1)) }
+      case 'optimizer':
+        return op
+    }
+  })), latencies)
+}
+
+export type CostReport = {
+  stepSeconds: number
+  // Model FLOPs per second over what the pipeline's GPUs could do at peak
+  mfu: number
+  tokensPerSecond: number
+}
+
+/**
+ * Wall-clock step time, model FLOPs utilization and throughput of one pipeline running the
+ * schedule, taking `stepTimesteps` per training step
+ */
+export function reportStepCost(gridData: GridData, model: ModelConfig, estimate: CostEstimate, stepTimesteps: number): CostReport {
+  const numMicrobatches = new Set(getOperations(gridData)
+    .filter(op => op.passType !== 'optimizer')
+    .map(op => op.value)).size
+  const stepSeconds = stepTimesteps * estimate.timestepSeconds
+  const peakFLOPs = gridData.length * model.peakTFLOPs * 1e12 * stepSeconds
+  return {
+    stepSeconds,
+    mfu: stepSeconds > 0 ? numMicrobatches * estimate.modelFLOPsPerMicrobatch / peakFLOPs : 0,
+    tokensPerSecond: stepSeconds > 0 ? numMicrobatches * model.microbatchSize * model.seqLength / stepSeconds : 0,
+  }
+}
@@ -0,0 +1,287 @@
+import {
+  type CellData,
+  type GridData,
+  type PassDurations,
+  type PassType,
+  MAX_CHUNKS,
+  chunkLetter,
+  getOperations,
+  isCellChunk,
+  isCellMicrobatch
+} from './utils'
+import type { OrderedOp } from './schedules'
+
+export type CellPosition = {
+  gpuIdx: number
+  timeIdx: number
+}
+
+/**
+ * A rectangular selection; the anchor stays put while the focus follows the mouse or arrow keys
+ */
+export type Selection = {
+  anchor: CellPosition
+  focus: CellPosition
+}
+
+// Inclusive bounds of a rectangular block of cells
+export type CellRange = {
+  gpuStart: number
+  gpuEnd: number
+  timeStart: number
+  timeEnd: number
+}
+
+// Letters that prefix a microbatch in copied cells, e.g. F3 or B3
+const PASS_TYPE_CODES: Record<PassType, string> = {
+  forward: 'F',
+  backward: 'B',
+  weight: 'W',
+  recompute: 'R',
+  optimizer: 'O'
+}
+
+// A copied cell that continues the operation to its left
+const CONTINUATION_TOKEN = '~'
+
+export function selectionRange(selection: Selection): CellRange {
+  const { anchor, focus } = selection
+  return {
+    gpuStart: Math.min(anchor.gpuIdx, focus.gpuIdx),
+    gpuEnd: Math.max(anchor.gpuIdx, focus.gpuIdx),
+    timeStart: Math.min(anchor.timeIdx, focus.timeIdx),
+    timeEnd: Math.max(anchor.timeIdx, focus.timeIdx),
+  }
+}
+
+export function isInRange(range: CellRange, gpuIdx: number, timeIdx: number): boolean {
+  return gpuIdx >= range.gpuStart && gpuIdx <= range.gpuEnd
+    && timeIdx >= range.timeStart && timeIdx <= range.timeEnd
+}
+
+/**
+ * Timestep where the operation covering the given cell starts
+ */
+export function getOperationStart(row: CellData[], timeIdx: number): number {
+  let start = timeIdx
+  while (start > 0 && row[start].continuation) start--
+  return start
+}
+
+/**
+ * Timesteps where the operations and empty cells overlapping [timeStart, timeEnd) begin, for
+ * drawing only part of a long row
+ */
+export function cellStartsInRange(row: CellData[], timeStart: number, timeEnd: number): number[] {
+  const starts: number[] = []
+  for (let t = getOperationStart(row, Math.min(timeStart, row.length - 1)); t >= 0 && t < Math.min(timeEnd, row.length); t++) {
+    if (!row[t].continuation) starts.push(t)
+  }
+  return starts
+}
+
+/**
+ * Widens a range in time so that it never cuts an operation in half
+ */
+export function expandToOperations(gridData: GridData, range: CellRange): CellRange {
+  let { timeStart, timeEnd } = range
+  for (let gpuIdx = range.gpuStart; gpuIdx <= range.gpuEnd; gpuIdx++) {
+    const row = gridData[gpuIdx]
+    timeStart = Math.min(timeStart, getOperationStart(row, range.timeStart))
+    let end = range.timeEnd
+    while (end + 1 < row.length && row[end + 1].continuation) end++
+    timeEnd = Math.max(timeEnd, end)
+  }
+  return { ...range, timeStart, timeEnd }
+}
+
+/**
+ * Clears continuation cells that no longer follow the operation they belonged to
+ */
+function dropOrphanContinuations(row: CellData[]) {
+  for (let t = 0; t < row.length; t++) {
+    const previous = row[t - 1]
+    if (row[t].continuation && (!previous || previous.value === null
+      || previous.value !== row[t].value || previous.passType !== row[t].passType
+      || (previous.chunk ?? 0) !== (row[t].chunk ?? 0))) {
+      row[t] = { value: null, passType: null }
+    }
+  }
+}
+
+/**
+ * Returns a copy of the grid with the rows in the range rewritten by `write`, which receives the
+ * row with the range's cells already cleared
+ */
+function rewriteRows(gridData: GridData, range: CellRange, write: (row: CellData[], gpuIdx: number) => void): GridData {
+  return gridData.map((existingRow, gpuIdx) => {
+    if (gpuIdx < range.gpuStart || gpuIdx > range.gpuEnd) return existingRow
+    const row = existingRow.slice()
+    for (let t = range.timeStart; t <= Math.min(range.timeEnd, row.length - 1); t++) {
+      row[t] = { value: null, passType: null }
+    }
+    dropOrphanContinuations(row)
+    write(row, gpuIdx)
+    dropOrphanContinuations(row)
+    return row
+  })
+}
+
+export function clearRange(gridData: GridData, range: CellRange): GridData {
+  return rewriteRows(gridData, range, () => {})
+}
+
+function cellToken(cell: CellData): string {
+  if (cell.value === null || !cell.passType) return ''
+  if (cell.continuation) return CONTINUATION_TOKEN
+  const chunk = cell.chunk ?? 0
+  return `${PASS_TYPE_CODES[cell.passType]}${cell.value}${chunk > 0 ? chunkLetter(chunk) : ''}`
+}
+
+/**
+ * Serializes a range as tab-separated values, one line per GPU
+ */
+export function rangeToTSV(gridData: GridData, range: CellRange): string {
+  const lines: string[] = []
+  for (let gpuIdx = range.gpuStart; gpuIdx <= range.gpuEnd; gpuIdx++) {
+    const tokens: string[] = []
+    for (let timeIdx = range.timeStart; timeIdx <= range.timeEnd; timeIdx++) {
+      tokens.push(cellToken(gridData[gpuIdx][timeIdx]))
+    }
+    lines.push(tokens.join('\t'))
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Parses one pasted cell: empty, a continuation, or a whole microbatch number with an optional F/B
+ * prefix and chunk letter suffix, e.g. F3b. Anything else, chunks past the last included, pastes
+ * as an empty cell.
+ */
+function parseToken(token: string, defaultPassType: PassType): CellData | typeof CONTINUATION_TOKEN {
+  const trimmed = token.trim()
+  if (trimmed === CONTINUATION_TOKEN) return CONTINUATION_TOKEN
+  const match = /^([a-z])?\s*(\d+)([a-z])?$/i.exec(trimmed)
+  if (!match) return { value: null, passType: null }
+  const passType = match[1]
+    ? (Object.keys(PASS_TYPE_CODES) as PassType[]).find(type => PASS_TYPE_CODES[type] === match[1].toUpperCase())
+    : defaultPassType
+  if (!passType) return { value: null, passType: null }
+  const value = Number(match[2])
+  const chunk = match[3] ? match[3].toLowerCase().charCodeAt(0) - 97 : 0
+  if (!isCellMicrobatch(value) || !isCellChunk(chunk)) return { value: null, passType: null }
+  return { value, passType, ...(chunk > 0 && { chunk }) }
+}
+
+/**
+ * Pastes tab-separated values (for example copied from a spreadsheet) with their top-left cell
+ * at the given position. Plain numbers take the default pass type; the block is clipped to the grid.
+ */
+export function pasteTSV(gridData: GridData, at: CellPosition, text: string, defaultPassType: PassType): GridData {
+  const lines = text.replace(/\r\n?/g, '\n').replace(/\n$/, '').split('\n').map(line => line.split('\t'))
+  const width = Math.max(...lines.map(line => line.length))
+  const range: CellRange = {
+    gpuStart: at.gpuIdx,
+    gpuEnd: Math.min(at.gpuIdx + lines.length, gridData.length) - 1,
+    timeStart: at.timeIdx,
+    timeEnd: at.timeIdx + width - 1,
+  }
+
+  return rewriteRows(gridData, range, (row, gpuIdx) => {
+    lines[gpuIdx - at.gpuIdx].forEach((token, j) => {
+      const timeIdx = at.timeIdx + j
+      if (timeIdx >= row.length) return
+      const cell = parseToken(token, defaultPassType)
+      if (cell !== CONTINUATION_TOKEN) {
+        row[timeIdx] = cell
+        return
+      }
+      const previous = row[timeIdx - 1]
+      if (j > 0 && previous.value !== null && previous.passType) {
+        row[timeIdx] = { ...previous, continuation: true }
+      }
+    })
+  })
+}
+
+/**
+ * Fills each row of the range with back-to-back operations of the given microbatch, pass type and
+ * chunk. The last one is cut short if it doesn't fit. Throws like setOperation.
+ */
+export function fillRange(gridData: GridData, range: CellRange, value: number, passType: PassType, duration: number, chunk = 0): GridData {
+  if (!isCellMicrobatch(value) || !isCellChunk(chunk)) {
+    throw new Error(`A cell can't hold microbatch ${value} on chunk ${chunk}`)
+  }
+  return rewriteRows(gridData, range, row => {
+    for (let t = range.timeStart; t <= range.timeEnd; t++) {
+      row[t] = {
+        value,
+        passType,
+        ...(chunk > 0 && { chunk }),
+        ...((t - range.timeStart) % duration > 0 && { continuation: true }),
+      }
+    }
+  })
+}
+
+/**
+ * Moves the operations in the range by `delta` timesteps, overwriting whatever they land on.
+ * Returns null when the move would push them off the grid.
+ */
+export function shiftRange(gridData: GridData, range: CellRange, delta: number): { gridData: GridData; range: CellRange } | null {
+  const expanded = expandToOperations(gridData, range)
+  const numTimesteps = gridData[0]?.length ?? 0
+  if (expanded.timeStart + delta < 0 || expanded.timeEnd + delta >= numTimesteps) return null
+
+  const block = rangeToTSV(gridData, expanded)
+  const cleared = clearRange(gridData, expanded)
+  const shifted = { ...expanded, timeStart: expanded.timeStart + delta, timeEnd: expanded.timeEnd + delta }
+  return {
+    // Pass types are always spelled out in copied blocks, so the default never applies
+    gridData: pasteTSV(cleared, { gpuIdx: shifted.gpuStart, timeIdx: shifted.timeStart }, block, 'forward'),
+    range: shifted,
+  }
+}
+
+/**
+ * Swaps forward and backward on every operation that overlaps the range. W, recompute and
+ * optimizer passes have no counterpart and stay as they are.
+ */
+export function flipPassType(gridData: GridData, range: CellRange): GridData {
+  const flipped = gridData.map(row => row.slice())
+  getOperations(gridData).forEach(op => {
+    if (op.gpuIdx < range.gpuStart || op.gpuIdx > range.gpuEnd) return
+    if (op.timeIdx > range.timeEnd || op.timeIdx + op.duration - 1 < range.timeStart) return
+    if (op.passType !== 'forward' && op.passType !== 'backward') return
+    const passType: PassType = op.passType === 'forward' ? 'backward' : 'forward'
+    for (let t = op.timeIdx; t < op.timeIdx + op.duration; t++) {
+      flipped[op.gpuIdx][t] = { ...flipped[op.gpuIdx][t], passType }
+    }
+  })
+  return flipped
+}
+
+/**
+ * Spells a GPU's op order the way copied cells are spelled, e.g. F1 F2 B1 F3 B2
+ */
+export function formatOpOrder(order: OrderedOp[]): string {
+  return order.map(op => `${PASS_TYPE_CODES[op.passType]}${op.microbatch}${op.chunk > 0 ? chunkLetter(op.chunk) : ''}`).join(' ')
+}
+
+/**
+ * Parses a GPU's op order from ops separated by spaces or commas, spelled like copied cells;
+ * plain numbers take the default pass type. Ops already in `previous` keep their duration and new
+ * ones take their pass type's default. Throws on a token that isn't an op.
+ */
+export function parseOpOrder(text: string, defaultPassType: PassType, previous: OrderedOp[], durations: PassDurations): OrderedOp[] {
+  return text.split(/[\s,]+/).filter(token => token !== '').map(token => {
+    const cell = parseToken(token, defaultPassType)
+    if (cell === CONTINUATION_TOKEN || cell.value === null || !cell.passType) {
+      throw new Error(`"${token}" is not an op; write ops like F3, B3 or W3b`)
+    }
+    const chunk = cell.chunk ?? 0
+    if (chunk >= MAX_CHUNKS) throw new Error(`"${token}" names a chunk past ${chunkLetter(MAX_CHUNKS - 1)}`)
+    const existing = previous.find(op => op.passType === cell.passType && op.microbatch === cell.value && op.chunk === chunk)
+    return { passType: cell.passType, microbatch: cell.value, chunk, duration: existing?.duration ?? durations[cell.passType] }
+  })
+}
@@ -0,0 +1,1050 @@
+import {
+  type CommLatencies,
+  type GridData,
+  type Operation,
+  type PassType,
+  DEFAULT_COMM_LATENCIES,
+  PASS_TYPE_LABELS,
+  PASS_TYPES,
+  formatCellLabel,
+  getOperationDuration,
+  getOperations,
+  gridUsesChunks,
+  maxOf,
+  minOf
+} from './utils'
+import { type Violation, resolveSchedule, dependencyReadyTime, groupViolationsByCell } from './validation'
+import { getTransfers } from './communication'
+import { type ParallelConfig, type SyncPhase, DEFAULT_PARALLEL_CONFIG, computeSyncPhases, globalRanks, rankLabel } from './parallelism'
+import { type MemoryConfig, computeMemoryBytes, formatGB } from './memory'
+import { type CellChange, CELL_CHANGE_COLORS } from './compare'
+import { type FigureBackground, FIGURE_PALETTES } from './figureExport'
+import { type ColorScheme, type Hatch, DEFAULT_APPEARANCE, getOpStyle } from './colors'
+import { type CellPosition, getOperationStart } from './editing'
+import { type Annotations, DEFAULT_ANNOTATIONS, notesInGrid } from './annotations'
+import { detectPhases } from './metrics'
+import type { IterationView } from './iterations'
+
+/**
+ * An SVG element as plain data, so the same figure can be rendered by React in the app and
+ * serialized to a file in Node. Attribute names are the SVG ones (stroke-width, not strokeWidth).
+ */
+export type SVGNode = {
+  tag: string
+  attrs: Record<string, string | number>
+  children: Array<SVGNode | string>
+}
+
+type Child = SVGNode | string | false | null | undefined | Child[]
+
+// Integers from start up to but not including end
+const range = (start: number, end: number) => Array.from({ length: Math.max(0, end - start) }, (_, idx) => start + idx)
+
+function el(tag: string, attrs: Record<string, string | number | undefined>, ...children: Child[]): SVGNode {
+  const definedAttrs: Record<string, string | number> = {}
+  Object.entries(attrs).forEach(([name, value]) => {
+    if (value !== undefined) definedAttrs[name] = value
+  })
+  const flatChildren: Array<SVGNode | string> = []
+  const add = (child: Child) => {
+    if (Array.isArray(child)) child.forEach(add)
+    else if (child !== false && child !== null && child !== undefined) flatChildren.push(child)
+  }
+  children.forEach(add)
+  return { tag, attrs: definedAttrs, children: flatChildren }
+}
+
+export type FigureOptions = {
+  gridData: GridData
+  numGPUs: number
+  numTimesteps: number
+  violations: Violation[]
+  memoryConfig: MemoryConfig
+  background?: FigureBackground
+  // Memory charts, the capacity line and the peak column
+  showMemory?: boolean
+  // Timestep the playback cursor is on; later operations are dimmed
+  playhead?: number | null
+  // Operations that differ from another schedule, keyed by their first cell
+  diff?: Map<string, CellChange>
+  // Earlier placement of the same schedule, outlined wherever an operation has since moved
+  ghost?: GridData
+  colorScheme?: ColorScheme
+  latencies?: CommLatencies
+  parallel?: ParallelConfig
+  // Width of a timestep; narrow ones drop labels, arrows and grid lines that would only be noise
+  cellWidth?: number
+  // Timesteps being looked at, end exclusive. Anything entirely outside them is left out, so
+  // zoomed-in views of long schedules stay small; the figure keeps its full size.
+  visibleRange?: TimeRange
+  // Cell to outline, e.g. the one hovered in the editor grid
+  highlight?: CellPosition | null
+  // Microbatch whose passes and sends stay bright while everything else is dimmed
+  isolate?: number | null
+  // Title, stage names, notes, phase brackets and legend
+  annotations?: Annotations
+  // Set when the grid repeats the schedule for several iterations, which are then colored apart
+  iterations?: IterationView
+  // Put before the ids of the figure's arrowheads, hatches and clip path. Figures sharing a page
+  // need prefixes of their own, or their url(#id) references resolve to the first figure's defs.
+  idPrefix?: string
+}
+
+export type TimeRange = {
+  timeStart: number
+  timeEnd: number
+}
+
+export type Figure = {
+  // The <svg> element, sized to its content
+  root: SVGNode
+  width: number
+  height: number
+}
+
+// Data-parallel replicas beyond this many are summarized instead of drawn
+const MAX_RENDERED_REPLICAS = 4
+
+// Width of a timestep at full size, the same as a cell of the editor grid
+export const DEFAULT_CELL_WIDTH = 38
+// Where the rows start, right of the GPU labels; matches row-label width. Long stage names widen it.
+export const ROW_LABEL_WIDTH = 60
+const HEADER_HEIGHT = 28 // Match header-cell height
+const ROW_HEIGHT = 32 // Match grid-cell height exactly
+const ROW_SPACING = 30 // Match border-bottom spacing
+// Space between data-parallel replicas, enough for a memory chart
+const REPLICA_GAP = 24
+// Column right of the rows for each GPU's peak memory
+const PEAK_LABEL_WIDTH = 64
+
+// Narrowest timesteps that still get each kind of detail
+const MIN_LABEL_WIDTH = 20
+const MIN_ARROW_WIDTH = 12
+const MIN_GRID_LINE_WIDTH = 8
+const MIN_OUTLINE_WIDTH = 5
+
+// Timestep labels are kept at least this far apart, labelling every 1st, 2nd, 5th, 10th, ... step
+const MIN_HEADER_LABEL_SPACING = 36
+const HEADER_LABEL_STEPS = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000]
+
+// Annotations above and below the schedule
+const TITLE_HEIGHT = 30
+const PHASES_HEIGHT = 26
+const LEGEND_ROW_HEIGHT = 22
+const NOTE_LINE_HEIGHT = 16
+const FOOTER_PADDING = 10
+const NOTE_BADGE_RADIUS = 7
+const NOTE_BADGE_COLOR = '#f5c518'
+
+// Rough width of a character as a share of the font size, for laying out text before it is drawn
+const CHARACTER_WIDTH = 0.6
+
+const textWidth = (text: string, fontSize: number) => text.length * fontSize * CHARACTER_WIDTH
+
+// A mark the legend explains and what it means
+type LegendItem = {
+  label: string
+  // Draws the mark with its left edge at x, centered on y
+  swatch: (x: number, y: number) => SVGNode
+}
+
+const LEGEND_SWATCH_WIDTH = 16
+const LEGEND_ITEM_GAP = 18
+
+/**
+ * Places legend items left to right, starting a new row wherever the next would overflow the width
+ */
+function layOutLegend(items: LegendItem[], width: number) {
+  const rows: Array<Array<{ item: LegendItem; x: number }>> = []
+  let x = 0
+  items.forEach(item => {
+    const itemWidth = LEGEND_SWATCH_WIDTH + 6 + textWidth(item.label, 11)
+    if (rows.length === 0 || (x > 0 && x + itemWidth > width)) {
+      rows.push([])
+      x = 0
+    }
+    rows[rows.length - 1].push({ item, x })
+    x += itemWidth + LEGEND_ITEM_GAP
+  })
+  return { rows, height: rows.length * LEGEND_ROW_HEIGHT }
+}
+
+const hatchId = (hatch: Hatch, color: string) => `hatch-${hatch}-${color.replace(/[^0-9a-z]/gi, '')}`
+
+/**
+ * Lines repeating over an operation's fill: diagonal for backward, crossed for W, horizontal for recompute
+ */
+function hatchPattern(id: string, hatch: Hatch, color: string): SVGNode {
+  const line = (x1: number, y1: number, x2: number, y2: number) =>
+    el('line', { x1, y1, x2, y2, stroke: color, 'stroke-width': 1.5 })
+  return el('pattern', {
+    id,
+    patternUnits: 'userSpaceOnUse',
+    width: 6,
+    height: 6,
+    patternTransform: hatch === 'horizontal' ? undefined : 'rotate(45)',
+  },
+    hatch === 'horizontal' ? line(0, 3, 6, 3) : line(3, 0, 3, 6),
+    hatch === 'cross' && line(0, 3, 6, 3)
+  )
+}
+
+// The gradient sync and optimizer step may run past the last timestep of the grid
+const countColumns = (numTimesteps: number, syncPhases: SyncPhase[]) =>
+  Math.max(numTimesteps, maxOf(syncPhases.map(phase => Math.max(phase.allReduceEnd, phase.optimizerEnd))))
+
+/**
+ * Width of the GPU labels left of the rows, enough for the longest stage name
+ */
+export function rowLabelWidth(annotations: Annotations = DEFAULT_ANNOTATIONS): number {
+  const longest = Math.max(0, ...annotations.stageNames.map(name => textWidth(name.trim(), 12.8)))
+  return Math.max(ROW_LABEL_WIDTH, Math.ceil(longest + 12))
+}
+
+// Height taken above the timestep header by the title and phase brackets
+function annotationsTop(gridData: GridData, annotations: Annotations): number {
+  return (annotations.title.trim() ? TITLE_HEIGHT : 0)
+    + (annotations.showPhases && detectPhases(gridData) ? PHASES_HEIGHT : 0)
+}
+
+/**
+ * Vertical placement of the GPU rows, shared by drawing and by finding the cell under a point
+ */
+function rowLayout(numGPUs: number, showMemory: boolean) {
+  // Space between header and first GPU row (for memory chart)
+  const headerRowGap = showMemory ? 25 : 8
+  return {
+    headerRowGap,
+    rowTop: (gpuIdx: number) => HEADER_HEIGHT + headerRowGap + gpuIdx * (ROW_HEIGHT + ROW_SPACING),
+    replicaPitch: numGPUs * (ROW_HEIGHT + ROW_SPACING) - ROW_SPACING + REPLICA_GAP,
+  }
+}
+
+/**
+ * Cell of the schedule drawn at a point of the figure, in any data-parallel replica. Returns null
+ * between rows and outside the grid.
+ */
+export function cellAtPoint(
+  {
+    gridData,
+    numGPUs,
+    numTimesteps,
+    showMemory = true,
+    parallel = DEFAULT_PARALLEL_CONFIG,
+    cellWidth = DEFAULT_CELL_WIDTH,
+    annotations = DEFAULT_ANNOTATIONS
+  }: FigureOptions,
+  x: number,
+  y: number
+): CellPosition | null {
+  const { rowTop, replicaPitch } = rowLayout(numGPUs, showMemory)
+  const top = annotationsTop(gridData, annotations) + rowTop(0)
+  const replicaIdx = Math.floor((y - top) / replicaPitch)
+  if (replicaIdx < 0 || replicaIdx >= Math.min(parallel.dataParallel, MAX_RENDERED_REPLICAS)) return null
+  const rowY = y - replicaIdx * replicaPitch - top
+  const gpuIdx = Math.floor(rowY / (ROW_HEIGHT + ROW_SPACING))
+  const timeIdx = Math.floor((x - rowLabelWidth(annotations)) / cellWidth)
+  if (rowY < 0 || gpuIdx >= numGPUs || rowY - gpuIdx * (ROW_HEIGHT + ROW_SPACING) > ROW_HEIGHT) return null
+  if (timeIdx < 0 || timeIdx >= numTimesteps) return null
+  return { gpuIdx, timeIdx }
+}
+
+/**
+ * Timestep width at which the figure is the given width, e.g. to fit it on screen
+ */
+export function cellWidthToFit(
+  { gridData, numTimesteps, showMemory = true, parallel = DEFAULT_PARALLEL_CONFIG, annotations }: FigureOptions,
+  width: number
+): number {
+  const numColumns = countColumns(numTimesteps, computeSyncPhases(gridData, parallel))
+  return (width - rowLabelWidth(annotations) - (showMemory ? PEAK_LABEL_WIDTH : 0)) / Math.max(1, numColumns)
+}
+
+/**
+ * Lays out and draws the schedule figure: one row per GPU with an operation block per pass,
+ * dependency arrows, sends, memory charts above the rows and the end-of-iteration sync phase
+ */
+export function renderFigure({
+  gridData,
+  numGPUs,
+  numTimesteps,
+  violations,
+  memoryConfig,
+  background = 'dark',
+  showMemory = true,
+  playhead = null,
+  diff,
+  ghost,
+  colorScheme = DEFAULT_APPEARANCE.colorScheme,
+  latencies = DEFAULT_COMM_LATENCIES,
+  parallel = DEFAULT_PARALLEL_CONFIG,
+  cellWidth = DEFAULT_CELL_WIDTH,
+  visibleRange,
+  highlight = null,
+  isolate = null,
+  annotations = DEFAULT_ANNOTATIONS,
+  iterations,
+  idPrefix = ''
+}: FigureOptions): Figure {
+  const defId = (name: string) => idPrefix ? `${idPrefix}-${name}` : name
+  const palette = FIGURE_PALETTES[background]
+  // Repeated iterations take one color each, numbered from 1 like microbatches
+  const colorKey = (value: number) => iterations ? (iterations.iterationOf.get(value) ?? 0) + 1 : value
+  const styleOf = (value: number, passType: PassType) => getOpStyle(colorKey(value), passType, colorScheme)
+  // Optimizer steps of repeated iterations are labeled with their iteration
+  const labelOf = (value: number, passType: PassType) =>
+    passType === 'optimizer' ? value : iterations?.labelOf.get(value) ?? value
+  const syncPhases = computeSyncPhases(gridData, parallel)
+  const isMultiDimensional = parallel.dataParallel > 1 || parallel.tensorParallel > 1
+  const numRenderedReplicas = Math.min(parallel.dataParallel, MAX_RENDERED_REPLICAS)
+  const numHiddenReplicas = parallel.dataParallel - numRenderedReplicas
+
+  // Microbatches between the start of their first operation and the end of their last one
+  const inFlightBatches = new Set<number>()
+  if (playhead !== null) {
+    const spans = new Map<number, { start: number; end: number }>()
+    getOperations(gridData).forEach(op => {
+      const span = spans.get(op.value) ?? { start: op.timeIdx, end: op.timeIdx + op.duration }
+      spans.set(op.value, {
+        start: Math.min(span.start, op.timeIdx),
+        end: Math.max(span.end, op.timeIdx + op.duration)
+      })
+    })
+    spans.forEach((span, batch) => {
+      if (span.start <= playhead && span.end > playhead) inFlightBatches.add(batch)
+    })
+  }
+
+  // Calculate memory usage in bytes for each GPU at each timestep
+  const memoryUsage = computeMemoryBytes(gridData, memoryConfig)
+
+  // All memory charts share one absolute scale, tall enough to show the device capacity
+  const peakMemory = memoryUsage.map(row => maxOf(row, 0))
+  const memoryScale = Math.max(memoryConfig.capacityBytes, maxOf(peakMemory), 1)
+
+  // One hatch pattern per pattern and color in use
+  const hatchPatterns = new Map<string, { hatch: Hatch; color: string }>()
+  getOperations(gridData).forEach(op => {
+    const { hatch, hatchColor } = styleOf(op.value, op.passType)
+    if (hatch) hatchPatterns.set(defId(hatchId(hatch, hatchColor)), { hatch, color: hatchColor })
+  })
+
+  // Calculate dimensions - matching top grid
+  const rowSpacing = ROW_SPACING
+  const headerHeight = HEADER_HEIGHT
+  const { headerRowGap, rowTop, replicaPitch } = rowLayout(numGPUs, showMemory)
+  const labelWidth = rowLabelWidth(annotations)
+  const startX = labelWidth // Start right after the label, matching top grid
+  const peakLabelWidth = showMemory ? PEAK_LABEL_WIDTH : 0
+  const numColumns = countColumns(numTimesteps, syncPhases)
+  const gridRight = startX + numColumns * cellWidth
+  const svgWidth = gridRight + peakLabelWidth
+  const rowHeight = ROW_HEIGHT
+  const hiddenReplicasHeight = numHiddenReplicas > 0 ? 24 : 0
+  const svgHeight = headerHeight + headerRowGap + numRenderedReplicas * replicaPitch - REPLICA_GAP + hiddenReplicasHeight
+
+  // Level of detail: what still reads at this zoom
+  const showLabels = cellWidth >= MIN_LABEL_WIDTH
+  const showArrows = cellWidth >= MIN_ARROW_WIDTH
+  const showGridLines = cellWidth >= MIN_GRID_LINE_WIDTH
+  const showOutlines = cellWidth >= MIN_OUTLINE_WIDTH
+  const headerLabelStep = HEADER_LABEL_STEPS.find(step => step * cellWidth >= MIN_HEADER_LABEL_SPACING)
+    ?? HEADER_LABEL_STEPS[HEADER_LABEL_STEPS.length - 1]
+  const { timeStart, timeEnd } = visibleRange ?? { timeStart: 0, timeEnd: numColumns }
+  // Whether anything spanning timesteps [start, end) shows
+  const isVisible = (start: number, end: number) => end > timeStart && start < timeEnd
+
+  const stageName = (gpuIdx: number) => annotations.stageNames[gpuIdx]?.trim()
+  const title = annotations.title.trim()
+  const phases = annotations.showPhases ? detectPhases(gridData) : null
+  const notes = notesInGrid(annotations, numGPUs, numTimesteps)
+  // Space above the header for the title and phase brackets
+  const top = annotationsTop(gridData, annotations)
+
+  // Generate edges - connect each op to the op it depends on
+  const edges = !showArrows ? [] : resolveSchedule(gridData).flatMap(op => {
+    const from = op.dependency
+    if (!from || !isVisible(Math.min(from.timeIdx, op.timeIdx), Math.max(from.timeIdx + from.duration, op.timeIdx + 1))) return []
+    return [{
+      // Leave from the last timestep of the dependency
+      x1: startX + (from.timeIdx + from.duration - 1) * cellWidth + cellWidth / 2,
+      y1: rowTop(from.gpuIdx) + rowHeight / 2,
+      x2: startX + op.timeIdx * cellWidth + cellWidth / 2,
+      y2: rowTop(op.gpuIdx) + rowHeight / 2,
+      passType: from.passType,
+      value: op.microbatch,
+      // Arrows that start before the dependency's output arrives break the dependency
+      invalid: dependencyReadyTime(op, latencies)! > op.timeIdx,
+      // Timestep the dependent operation starts at
+      toTimeIdx: op.timeIdx
+    }]
+  })
+
+  const violationsByCell = groupViolationsByCell(violations)
+
+  // Span of the operation covering the highlighted cell, or just the cell when it's empty
+  const highlightRow = highlight ? gridData[highlight.gpuIdx] : undefined
+  const highlighted = highlight && highlightRow && highlight.timeIdx < highlightRow.length ? (() => {
+    const start = highlightRow[highlight.timeIdx].value === null ? highlight.timeIdx : getOperationStart(highlightRow, highlight.timeIdx)
+    return { gpuIdx: highlight.gpuIdx, timeIdx: start, duration: getOperationDuration(highlightRow, start) }
+  })() : null
+  // Everything but the isolated microbatch fades into the background
+  const isDimmed = (microbatch: number) => isolate !== null && microbatch !== isolate
+
+  // Ghost operations that no longer sit where they did, as the same pass in the same cell
+  const opSignature = (op: Operation) =>
+    `${op.gpuIdx}-${op.timeIdx}-${op.duration}-${op.value}-${op.passType}-${op.chunk}`
+  const currentOps = new Set(getOperations(gridData).map(opSignature))
+  const movedGhostOps = ghost
+    ? getOperations(ghost).filter(op => isVisible(op.timeIdx, op.timeIdx + op.duration) && !currentOps.has(opSignature(op)))
+    : []
+  const showChunks = gridUsesChunks(gridData)
+
+  // Sends that take time are drawn as bars in the gap below the upper of the two GPUs,
+  // activations in the upper lane and gradients in the lower one
+  const transferBars = !showArrows ? [] : getTransfers(gridData, latencies)
+    .filter(transfer => transfer.arrivalTime > transfer.sendTime && isVisible(transfer.sendTime, transfer.arrivalTime))
+    .map(transfer => {
+      const upperGPU = Math.min(transfer.fromGPU, transfer.toGPU)
+      const laneY = rowTop(upperGPU) + rowHeight + (transfer.passType === 'forward' ? 2 : 6)
+      return { ...transfer, laneY }
+    })
+
+  // Ensure minimum dimensions for display
+  const calculatedHeight = headerHeight + headerRowGap + numGPUs * (rowHeight + rowSpacing) - rowSpacing
+  const minHeight = Math.max(svgHeight, calculatedHeight || 200)
+
+  const headerText = (x: number, label: string) => el('text', {
+    x,
+    y: headerHeight - 6,
+    fill: palette.text,
+    'font-size': 9.6,
+    'font-weight': 600,
+    'font-family': 'sans-serif',
+    'text-anchor': 'middle',
+  }, label)
+
+  const arrowhead = (id: string, fill: string) => el('marker', {
+    id,
+    markerWidth: 10,
+    markerHeight: 10,
+    refX: 9,
+    refY: 3,
+    orient: 'auto',
+  }, el('polygon', { points: '0 0, 10 3, 0 6', fill }))
+
+  const renderReplica = (replicaIdx: number) => el('g', { transform: `translate(0, ${replicaIdx * replicaPitch})` },
+    // GPU row backgrounds and grid lines
+    gridData.map((_, gpuIdx) => {
+      const rowY = rowTop(gpuIdx)
+      return el('g', {},
+        el('rect', {
+          x: labelWidth,
+          y: rowY,
+          width: gridRight - labelWidth,
+          height: rowHeight,
+          fill: 'white',
+          stroke: '#e0e0e0',
+          'stroke-width': 2,
+        }),
+        // Vertical grid lines - align with cell boundaries
+        showGridLines && range(Math.max(0, timeStart), Math.min(numColumns, timeEnd) + 1).map(timeIdx => el('line', {
+          x1: startX + timeIdx * cellWidth,
+          y1: rowY,
+          x2: startX + timeIdx * cellWidth,
+          y2: rowY + rowHeight,
+          stroke: palette.gridLine,
+          'stroke-width': 1,
+        })),
+        el('line', {
+          x1: labelWidth,
+          y1: rowY + rowHeight,
+          x2: gridRight,
+          y2: rowY + rowHeight,
+          stroke: palette.gridLine,
+          'stroke-width': 1,
+        })
+      )
+    }),
+
+    // Draw edges first (so they appear behind nodes)
+    edges.map(edge => {
+      const isInFlight = inFlightBatches.has(edge.value) || edge.value === isolate
+      const isFuture = playhead !== null && edge.toTimeIdx > playhead
+      return el('line', {
+        x1: edge.x1,
+        y1: edge.y1,
+        x2: edge.x2,
+        y2: edge.y2,
+        stroke: edge.invalid ? '#ff3b3b' : styleOf(edge.value, edge.passType).accent,
+        'stroke-width': isInFlight ? 3 : 2,
+        'stroke-opacity': isDimmed(edge.value) ? 0.08 : edge.invalid || isInFlight ? 0.9 : isFuture ? 0.15 : 0.6,
+        'stroke-dasharray': edge.invalid ? '4 3' : undefined,
+        'marker-end': `url(#${defId(edge.invalid ? 'arrowhead-invalid' : `arrowhead-${edge.passType}-${edge.value}`)})`,
+      })
+    }),
+
+    // Activation and gradient sends between GPUs
+    transferBars.map(transfer => el('rect', {
+      x: startX + transfer.sendTime * cellWidth,
+      y: transfer.laneY,
+      width: (transfer.arrivalTime - transfer.sendTime) * cellWidth,
+      height: 3,
+      rx: 1.5,
+      fill: styleOf(transfer.microbatch, transfer.passType).accent,
+      opacity: isDimmed(transfer.microbatch) ? 0.1 : playhead !== null && transfer.sendTime > playhead ? 0.25 : 0.9,
+    }, el('title', {},
+      `${transfer.passType === 'forward' ? 'Activations' : 'Gradients'} of microbatch ${transfer.microbatch}: `
+      + `GPU ${transfer.fromGPU} → GPU ${transfer.toGPU}, t${transfer.sendTime}–t${transfer.arrivalTime}`
+    ))),
+
+    // GPU row labels
+    gridData.map((_, gpuIdx) => {
+      const rowY = rowTop(gpuIdx)
+      const rowCenterY = rowY + rowHeight / 2
+      const ranks = globalRanks(replicaIdx, gpuIdx, parallel)
+      return el('g', {},
+        el('rect', { x: 0, y: rowY, width: labelWidth, height: rowHeight, fill: palette.labelFill }),
+        el('line', {
+          x1: labelWidth,
+          y1: rowY,
+          x2: labelWidth,
+          y2: rowY + rowHeight,
+          stroke: palette.gridLine,
+          'stroke-width': 1,
+        }),
+        el('text', {
+          x: labelWidth / 2,
+          y: parallel.tensorParallel > 1 ? rowCenterY - 5 : rowCenterY,
+          fill: palette.text,
+          'font-size': isMultiDimensional ? 11 : 12.8,
+          'font-weight': 600,
+          'font-family': 'sans-serif',
+          'text-anchor': 'middle',
+          'dominant-baseline': 'middle',
+        }, stageName(gpuIdx) || (isMultiDimensional ? rankLabel(replicaIdx, gpuIdx) : `GPU ${gpuIdx}`)),
+        // Global ranks of the tensor-parallel group running this stage
+        parallel.tensorParallel > 1 && el('text', {
+          x: labelWidth / 2,
+          y: rowCenterY + 8,
+          fill: palette.text,
+          'font-size': 8.5,
+          'font-family': 'sans-serif',
+          'text-anchor': 'middle',
+          'dominant-baseline': 'middle',
+          opacity: 0.8,
+        }, `ranks ${ranks[0]}–${ranks[ranks.length - 1]}`)
+      )
+    }),
+
+    // Nodes for each operation, spanning every timestep it runs for
+    gridData.map((row, gpuIdx) => el('g', {},
+      row.map((cell, timeIdx) => {
+        if (cell.value === null || !cell.passType || cell.continuation) return null
+        const duration = getOperationDuration(row, timeIdx)
+        if (!isVisible(timeIdx, timeIdx + duration)) return null
+
+        const blockWidth = duration * cellWidth
+        const x = startX + timeIdx * cellWidth + blockWidth / 2
+        const y = rowTop(gpuIdx) + rowHeight / 2
+        const cellViolations = violationsByCell.get(`${gpuIdx}-${timeIdx}`)
+        const change = diff?.get(`${gpuIdx}-${timeIdx}`)
+        const tooltip = [...(cellViolations ?? []), ...(change ? [`Diff: ${change}`] : [])]
+        const style = styleOf(cell.value, cell.passType)
+
+        const opacity = (playhead !== null && timeIdx > playhead ? 0.25 : 1) * (isDimmed(cell.value) ? 0.2 : 1)
+        return el('g', { opacity },
+          el('rect', {
+            x: x - blockWidth / 2,
+            y: y - rowHeight / 2,
+            width: blockWidth,
+            height: rowHeight,
+            fill: style.fill,
+            stroke: cellViolations ? '#ff3b3b' : change ? CELL_CHANGE_COLORS[change] : showOutlines ? 'white' : 'none',
+            'stroke-width': cellViolations || change ? 3 : 1,
+          }, tooltip.length > 0 && el('title', {}, tooltip.join('\n'))),
+          style.hatch && el('rect', {
+            x: x - blockWidth / 2 + 1,
+            y: y - rowHeight / 2 + 1,
+            width: blockWidth - 2,
+            height: rowHeight - 2,
+            fill: `url(#${defId(hatchId(style.hatch, style.hatchColor))})`,
+            'pointer-events': 'none',
+          }),
+          showLabels && el('text', {
+            x,
+            y,
+            fill: style.text,
+            'font-size': 12,
+            'font-weight': 600,
+            'font-family': 'sans-serif',
+            'text-anchor': 'middle',
+            'dominant-baseline': 'middle',
+          }, formatCellLabel(labelOf(cell.value, cell.passType), cell.chunk, showChunks))
+        )
+      })
+    )),
+
+    // Outline of the hovered operation
+    highlighted && el('rect', {
+      x: startX + highlighted.timeIdx * cellWidth,
+      y: rowTop(highlighted.gpuIdx),
+      width: highlighted.duration * cellWidth,
+      height: rowHeight,
+      fill: 'none',
+      stroke: '#4da3ff',
+      'stroke-width': 3,
+      'pointer-events': 'none',
+    }),
+
+    // Where each repeated iteration starts
+    iterations?.boundaries.map((boundary, idx) => isVisible(boundary, boundary + 1) && el('g', { 'pointer-events': 'none' },
+      el('line', {
+        x1: startX + boundary * cellWidth,
+        y1: rowTop(0) - (showMemory ? headerRowGap : 0),
+        x2: startX + boundary * cellWidth,
+        y2: rowTop(numGPUs - 1) + rowHeight,
+        stroke: palette.text,
+        'stroke-width': 1.5,
+        'stroke-dasharray': '6 3',
+        opacity: 0.7,
+      }),
+      replicaIdx === 0 && el('text', {
+        x: startX + boundary * cellWidth + 3,
+        y: rowTop(0) - (showMemory ? headerRowGap : 0) + 8,
+        fill: palette.text,
+        'font-size': 9,
+        'font-weight': 600,
+        'font-family': 'sans-serif',
+        opacity: 0.8,
+      }, `Iteration ${idx + 2}`)
+    )),
+
+    // Numbered badges on annotated cells, keyed to the notes listed below the figure. Every
+    // replica runs the same schedule, so the first one carries them.
+    replicaIdx === 0 && notes.map((note, idx) => isVisible(note.timeIdx, note.timeIdx + 1) && el('g', {},
+      el('circle', {
+        cx: startX + (note.timeIdx + 1) * cellWidth - Math.min(NOTE_BADGE_RADIUS, cellWidth / 2),
+        cy: rowTop(note.gpuIdx),
+        r: NOTE_BADGE_RADIUS,
+        fill: NOTE_BADGE_COLOR,
+        stroke: '#1a1a1a',
+        'stroke-width': 1,
+      }, el('title', {}, note.text)),
+      el('text', {
+        x: startX + (note.timeIdx + 1) * cellWidth - Math.min(NOTE_BADGE_RADIUS, cellWidth / 2),
+        y: rowTop(note.gpuIdx),
+        fill: '#1a1a1a',
+        'font-size': 9,
+        'font-weight': 700,
+        'font-family': 'sans-serif',
+        'text-anchor': 'middle',
+        'dominant-baseline': 'middle',
+        'pointer-events': 'none',
+      }, String(idx + 1))
+    )),
+
+    // Dashed outlines where moved operations used to be
+    movedGhostOps.map(op => el('rect', {
+      x: startX + op.timeIdx * cellWidth + 1,
+      y: rowTop(op.gpuIdx) + 1,
+      width: op.duration * cellWidth - 2,
+      height: rowHeight - 2,
+      fill: 'none',
+      stroke: palette.text,
+      'stroke-width': 1.5,
+      'stroke-dasharray': '4 3',
+      opacity: 0.6,
+      'pointer-events': 'none',
+    })),
+
+    // Memory area plots - rendered above each GPU row with curves
+    showMemory && gridData.map((_, gpuIdx) => renderMemoryChart(gpuIdx)),
+
+    // Gradient all-reduce on its own stream along the bottom of the row, then the optimizer step
+    syncPhases.filter(phase => isVisible(phase.allReduceStart, Math.max(phase.allReduceEnd, phase.optimizerEnd))).map(phase => {
+      const rowY = rowTop(phase.gpuIdx)
+      return el('g', { opacity: playhead !== null && phase.allReduceStart > playhead ? 0.25 : 1 },
+        phase.allReduceEnd > phase.allReduceStart && parallel.dataParallel > 1 && el('rect', {
+          x: startX + phase.allReduceStart * cellWidth,
+          y: rowY + rowHeight - 6,
+          width: (phase.allReduceEnd - phase.allReduceStart) * cellWidth,
+          height: 5,
+          fill: '#a78bfa',
+          stroke: 'white',
+          'stroke-width': 0.5,
+        }, el('title', {},
+          `Gradient all-reduce across ${parallel.dataParallel} replicas: t${phase.allReduceStart}–t${phase.allReduceEnd}`
+        )),
+        phase.optimizerEnd > phase.optimizerStart && el('g', {},
+          el('rect', {
+            x: startX + phase.optimizerStart * cellWidth,
+            y: rowY,
+            width: (phase.optimizerEnd - phase.optimizerStart) * cellWidth,
+            height: rowHeight,
+            fill: '#6b7280',
+            stroke: 'white',
+            'stroke-width': 1,
+          }, el('title', {}, `Optimizer step: t${phase.optimizerStart}–t${phase.optimizerEnd}`)),
+          (phase.optimizerEnd - phase.optimizerStart) * cellWidth >= MIN_LABEL_WIDTH && el('text', {
+            x: startX + (phase.optimizerStart + phase.optimizerEnd) / 2 * cellWidth,
+            y: rowY + rowHeight / 2,
+            fill: '#ffffff',
+            'font-size': 10,
+            'font-weight': 600,
+            'font-family': 'sans-serif',
+            'text-anchor': 'middle',
+            'dominant-baseline': 'middle',
+          }, 'opt')
+        )
+      )
+    })
+  )
+
+  function renderMemoryChart(gpuIdx: number): SVGNode {
+    const rowY = rowTop(gpuIdx)
+    // A fixed-height area plot just above the row
+    const areaHeight = 20
+    const areaBottom = rowY - 2
+    const memoryY = (bytes: number) => areaBottom - (bytes / memoryScale) * areaHeight
+
+    // Only the visible stretch is traced, from one cell before it to one after
+    const chartStart = Math.max(0, Math.min(numTimesteps, timeStart - 1))
+    const chartEnd = Math.max(chartStart, Math.min(numTimesteps, timeEnd + 1))
+    const chartStartX = startX + chartStart * cellWidth
+
+    // Start at bottom-left
+    const pathSegments = [`M ${chartStartX} ${areaBottom}`, `L ${chartStartX} ${memoryY(memoryUsage[gpuIdx][chartStart] ?? 0)}`]
+
+    // For each timestep, draw with smooth curves at cell boundaries
+    for (let timeIdx = chartStart; timeIdx < chartEnd; timeIdx++) {
+      const y = memoryY(memoryUsage[gpuIdx][timeIdx])
+      const cellEndX = startX + (timeIdx + 1) * cellWidth
+
+      if (timeIdx < chartEnd - 1) {
+        const nextY = memoryY(memoryUsage[gpuIdx][timeIdx + 1])
+        // Horizontal most of the way across the cell, then an S-curve into the next value
+        pathSegments.push(`L ${cellEndX - cellWidth * 0.15} ${y}`)
+        pathSegments.push(`C ${cellEndX - cellWidth * 0.05} ${y} ${cellEndX + cellWidth * 0.05} ${nextY} ${cellEndX + cellWidth * 0.15} ${nextY}`)
+      } else {
+        pathSegments.push(`L ${cellEndX} ${y}`)
+      }
+    }
+
+    // Close the path by going to bottom-right
+    pathSegments.push(`L ${startX + chartEnd * cellWidth} ${areaBottom}`)
+    pathSegments.push('Z')
+
+    const capacityY = memoryY(memoryConfig.capacityBytes)
+    const overCapacity = peakMemory[gpuIdx] > memoryConfig.capacityBytes
+
+    return el('g', {},
+      // During playback the chart only fills in up to the cursor
+      el('g', { 'clip-path': playhead !== null ? `url(#${defId('playback-clip')})` : undefined },
+        // Highlight timesteps that would run out of memory
+        range(chartStart, chartEnd).map(timeIdx => memoryUsage[gpuIdx][timeIdx] > memoryConfig.capacityBytes && el('rect', {
+          x: startX + timeIdx * cellWidth,
+          y: areaBottom - areaHeight,
+          width: cellWidth,
+          height: areaHeight,
+          fill: 'rgba(255, 59, 59, 0.35)',
+        })),
+        el('path', {
+          d: pathSegments.join(' '),
+          fill: 'rgba(128, 128, 128, 0.3)',
+          stroke: 'rgba(128, 128, 128, 0.5)',
+          'stroke-width': 1,
+        })
+      ),
+      // Device capacity line
+      el('line', {
+        x1: startX,
+        y1: capacityY,
+        x2: gridRight,
+        y2: capacityY,
+        stroke: '#ff3b3b',
+        'stroke-width': 1,
+        'stroke-dasharray': '3 2',
+      }),
+      // Peak memory for this GPU
+      el('text', {
+        x: gridRight + peakLabelWidth / 2,
+        y: rowY + rowHeight / 2,
+        fill: overCapacity ? '#ff3b3b' : palette.text,
+        'font-size': 10,
+        'font-weight': 600,
+        'font-family': 'sans-serif',
+        'text-anchor': 'middle',
+        'dominant-baseline': 'middle',
+      }, formatGB(peakMemory[gpuIdx]))
+    )
+  }
+
+  const legend = annotations.showLegend ? layOutLegend(legendItems(), svgWidth - startX) : { rows: [], height: 0 }
+  const footerHeight = legend.height + notes.length * NOTE_LINE_HEIGHT
+    + (legend.height > 0 || notes.length > 0 ? FOOTER_PADDING : 0)
+  // Long titles and notes widen the figure rather than run off its edge
+  const figureWidth = Math.max(
+    svgWidth,
+    startX + textWidth(title, 16) + 8,
+    ...notes.map(note => startX + 2 * NOTE_BADGE_RADIUS + 6 + textWidth(note.text, 11) + 8)
+  )
+  const figureHeight = top + svgHeight + footerHeight
+
+  // Things the legend explains, in the order they are listed
+  function legendItems(): LegendItem[] {
+    const operations = getOperations(gridData)
+    const microbatches = operations.filter(op => op.passType !== 'optimizer').map(op => op.value)
+    // Every pass is shown in one microbatch's colors, so they differ only as passes do
+    const sample = minOf(microbatches, 1)
+    const passTypes = PASS_TYPES.filter(type => operations.some(op => op.passType === type))
+    const hasSends = showArrows && getTransfers(gridData, latencies).some(transfer => transfer.arrivalTime > transfer.sendTime)
+    const hasAllReduce = parallel.dataParallel > 1 && syncPhases.some(phase => phase.allReduceEnd > phase.allReduceStart)
+    const hasOptimizerPhase = !passTypes.includes('optimizer') && syncPhases.some(phase => phase.optimizerEnd > phase.optimizerStart)
+
+    const block = (fill: string, hatch?: string) => (x: number, y: number) => el('g', {},
+      el('rect', { x, y: y - 6, width: 16, height: 12, fill, stroke: 'white', 'stroke-width': 1 }),
+      hatch && el('rect', { x: x + 1, y: y - 5, width: 14, height: 10, fill: `url(#${hatch})` })
+    )
+    const bar = (fill: string, height: number) => (x: number, y: number) =>
+      el('rect', { x, y: y - height / 2, width: 16, height, rx: Math.min(1.5, height / 2), fill })
+
+    return [
+      ...passTypes.map(type => {
+        const style = styleOf(sample, type)
+        return { label: PASS_TYPE_LABELS[type], swatch: block(style.fill, style.hatch ? defId(hatchId(style.hatch, style.hatchColor)) : undefined) }
+      }),
+      hasOptimizerPhase && { label: PASS_TYPE_LABELS.optimizer, swatch: block('#6b7280') },
+      ...Array.from(new Set(iterations?.iterationOf.values())).sort((a, b) => a - b).map(iteration => ({
+        label: `Iteration ${iteration + 1}`,
+        swatch: block(getOpStyle(iteration + 1, 'forward', colorScheme).fill),
+      })),
+      hasSends && { label: 'Send between GPUs', swatch: bar(styleOf(sample, 'forward').accent, 3) },
+      hasAllReduce && { label: 'Gradient all-reduce', swatch: bar('#a78bfa', 5) },
+      showMemory && { label: 'Memory in use', swatch: (x: number, y: number) => el('rect', {
+        x, y: y - 6, width: 16, height: 12, fill: 'rgba(128, 128, 128, 0.3)', stroke: 'rgba(128, 128, 128, 0.5)', 'stroke-width': 1,
+      }) },
+      showMemory && { label: 'Device capacity', swatch: (x: number, y: number) => el('line', {
+        x1: x, y1: y, x2: x + 16, y2: y, stroke: '#ff3b3b', 'stroke-width': 1, 'stroke-dasharray': '3 2',
+      }) },
+      violations.length > 0 && { label: 'Violation', swatch: (x: number, y: number) => el('rect', {
+        x: x + 1, y: y - 5, width: 14, height: 10, fill: 'none', stroke: '#ff3b3b', 'stroke-width': 2,
+      }) },
+    ].filter((item): item is LegendItem => Boolean(item))
+  }
+
+  // Brackets over the timeline spanning warmup, steady state and cooldown
+  function renderPhases(y: number): Child {
+    if (!phases) return null
+    return [
+      { label: 'Warmup', start: phases.start, end: phases.warmupEnd },
+      { label: 'Steady state', start: phases.warmupEnd, end: phases.cooldownStart },
+      { label: 'Cooldown', start: phases.cooldownStart, end: phases.end },
+    ].filter(phase => phase.end > phase.start && isVisible(phase.start, phase.end)).map(phase => {
+      const x1 = startX + phase.start * cellWidth + 2
+      const x2 = startX + phase.end * cellWidth - 2
+      return el('g', {},
+        el('title', {}, `${phase.label}: t${phase.start}–t${phase.end}`),
+        el('path', {
+          d: `M ${x1} ${y + 22} V ${y + 16} H ${x2} V ${y + 22}`,
+          fill: 'none',
+          stroke: palette.text,
+          'stroke-width': 1.5,
+          opacity: 0.7,
+        }),
+        textWidth(phase.label, 10) <= x2 - x1 && el('text', {
+          x: (x1 + x2) / 2,
+          y: y + 8,
+          fill: palette.text,
+          'font-size': 10,
+          'font-weight': 600,
+          'font-family': 'sans-serif',
+          'text-anchor': 'middle',
+          'dominant-baseline': 'middle',
+        }, phase.label)
+      )
+    })
+  }
+
+  function renderFooter(): Child {
+    const notesTop = legend.height + FOOTER_PADDING / 2
+    return [
+      legend.rows.map((row, rowIdx) => row.map(({ item, x }) => {
+        const y = FOOTER_PADDING / 2 + (rowIdx + 0.5) * LEGEND_ROW_HEIGHT
+        return el('g', {},
+          item.swatch(startX + x, y),
+          el('text', {
+            x: startX + x + LEGEND_SWATCH_WIDTH + 6,
+            y,
+            fill: palette.text,
+            'font-size': 11,
+            'font-family': 'sans-serif',
+            'dominant-baseline': 'middle',
+          }, item.label)
+        )
+      })),
+      notes.map((note, idx) => {
+        const y = notesTop + (idx + 0.5) * NOTE_LINE_HEIGHT
+        return el('g', {},
+          el('circle', { cx: startX + NOTE_BADGE_RADIUS, cy: y, r: NOTE_BADGE_RADIUS, fill: NOTE_BADGE_COLOR, stroke: '#1a1a1a', 'stroke-width': 1 }),
+          el('text', {
+            x: startX + NOTE_BADGE_RADIUS,
+            y,
+            fill: '#1a1a1a',
+            'font-size': 9,
+            'font-weight': 700,
+            'font-family': 'sans-serif',
+            'text-anchor': 'middle',
+            'dominant-baseline': 'middle',
+          }, String(idx + 1)),
+          el('text', {
+            x: startX + 2 * NOTE_BADGE_RADIUS + 6,
+            y,
+            fill: palette.text,
+            'font-size': 11,
+            'font-family': 'sans-serif',
+            'dominant-baseline': 'middle',
+          }, note.text)
+        )
+      }),
+    ]
+  }
+
+  const root = el('svg', {
+    viewBox: `0 0 ${figureWidth} ${figureHeight}`,
+    width: figureWidth,
+    height: top + minHeight + footerHeight,
+    preserveAspectRatio: 'xMinYMin meet',
+  },
+    palette.background && el('rect', { x: 0, y: 0, width: figureWidth, height: figureHeight, fill: palette.background }),
+
+    title && el('text', {
+      x: startX,
+      y: TITLE_HEIGHT / 2,
+      fill: palette.text,
+      'font-size': 16,
+      'font-weight': 700,
+      'font-family': 'sans-serif',
+      'dominant-baseline': 'middle',
+    }, title),
+    renderPhases(title ? TITLE_HEIGHT : 0),
+
+    el('g', { transform: top > 0 ? `translate(0, ${top})` : undefined },
+
+      // Header with the timestep labels
+      el('rect', { x: 0, y: 0, width: svgWidth, height: headerHeight, fill: palette.headerFill }),
+      el('line', { x1: 0, y1: headerHeight, x2: svgWidth, y2: headerHeight, stroke: palette.gridLine, 'stroke-width': 1 }),
+      el('line', { x1: labelWidth, y1: 0, x2: labelWidth, y2: headerHeight, stroke: palette.gridLine, 'stroke-width': 1 }),
+      showMemory && headerText(gridRight + peakLabelWidth / 2, 'Peak'),
+      range(Math.max(0, timeStart), Math.min(numColumns, timeEnd))
+        .filter(timeIdx => timeIdx % headerLabelStep === 0)
+        .map(timeIdx => headerText(startX + timeIdx * cellWidth + cellWidth / 2, `t${timeIdx}`)),
+
+      el('defs', {},
+        Array.from(new Set(edges.map(edge => edge.value))).map(batch => el('g', {},
+          arrowhead(defId(`arrowhead-forward-${batch}`), styleOf(batch, 'forward').accent),
+          arrowhead(defId(`arrowhead-backward-${batch}`), styleOf(batch, 'backward').accent)
+        )),
+        Array.from(hatchPatterns, ([id, { hatch, color }]) => hatchPattern(id, hatch, color)),
+        el('marker', {
+          id: defId('arrowhead-memory'),
+          markerWidth: 5,
+          markerHeight: 5,
+          refX: 4.5,
+          refY: 2.5,
+          orient: 'auto',
+        }, el('polygon', { points: '0 0, 5 2.5, 0 5', fill: palette.memoryArrow })),
+        arrowhead(defId('arrowhead-invalid'), '#ff3b3b')
+      ),
+
+      playhead !== null && el('clipPath', { id: defId('playback-clip') },
+        el('rect', { x: 0, y: 0, width: startX + (playhead + 1) * cellWidth, height: svgHeight })
+      ),
+
+      // One block of rows per data-parallel replica; every replica runs the same schedule
+      Array(numRenderedReplicas).fill(0).map((_, replicaIdx) => renderReplica(replicaIdx)),
+
+      numHiddenReplicas > 0 && el('text', {
+        x: startX,
+        y: svgHeight - hiddenReplicasHeight / 2,
+        fill: palette.text,
+        'font-size': 11,
+        'font-family': 'sans-serif',
+        'dominant-baseline': 'middle',
+        opacity: 0.8,
+      }, `+ ${numHiddenReplicas} more data-parallel replica${numHiddenReplicas === 1 ? '' : 's'} running the same schedule`),
+
+      // Memory label above the first GPU label, with an arrow to its chart
+      showMemory && el('text', {
+        x: labelWidth / 2,
+        y: headerHeight + headerRowGap / 2,
+        fill: palette.text,
+        'font-size': 9.6,
+        'font-weight': 600,
+        'font-family': 'sans-serif',
+        'text-anchor': 'middle',
+        'dominant-baseline': 'middle',
+        opacity: 0.8,
+      }, 'Memory'),
+      showMemory && memoryUsage[0] && maxOf(memoryUsage[0]) > 0 && el('line', {
+        x1: labelWidth / 2 + 20,
+        y1: headerHeight + headerRowGap / 2,
+        x2: startX + cellWidth / 2,
+        y2: headerHeight + headerRowGap - 12,
+        stroke: palette.memoryArrow,
+        'stroke-width': 1.5,
+        'marker-end': `url(#${defId('arrowhead-memory')})`,
+      }),
+
+      // Playback cursor: the current timestep's column and a line where it ends
+      playhead !== null && el('g', { 'pointer-events': 'none' },
+        el('rect', {
+          x: startX + playhead * cellWidth,
+          y: 0,
+          width: cellWidth,
+          height: svgHeight,
+          fill: 'rgba(77, 163, 255, 0.12)',
+        }),
+        el('line', {
+          x1: startX + (playhead + 1) * cellWidth,
+          y1: 0,
+          x2: startX + (playhead + 1) * cellWidth,
+          y2: svgHeight,
+          stroke: '#4da3ff',
+          'stroke-width': 2,
+        })
+      )
+    ),
+
+    // Legend and the notes the badges refer to
+    footerHeight > 0 && el('g', { transform: `translate(0, ${top + svgHeight})` }, renderFooter())
+  )
+
+  return { root, width: figureWidth, height: figureHeight }
+}
+
+const escapeXML = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+function serializeNode(node: SVGNode | string): string {
+  if (typeof node === 'string') return escapeXML(node)
+  const attrs = Object.entries(node.attrs).map(([name, value]) => ` ${name}="${escapeXML(String(value))}"`).join('')
+  if (node.children.length === 0) return `<${node.tag}${attrs}/>`
+  return `<${node.tag}${attrs}>${node.children.map(serializeNode).join('')}</${node.tag}>`
+}
+
+/**
+ * Serializes a figure as a standalone SVG document scaled by the given factor
+ */
+export function figureToSVG(figure: Figure, scale = 1): string {
+  const root: SVGNode = {
+    ...figure.root,
+    attrs: {
+      ...figure.root.attrs,
+      width: figure.width * scale,
+      height: figure.height * scale,
+      xmlns: 'http://www.w3.org/2000/svg',
+    },
+  }
+  return serializeNode(root)
+}
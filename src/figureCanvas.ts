@@ -0,0 +1,204 @@
+import { type Figure, type SVGNode } from './figure'
+import { type GridData, getOperations } from './utils'
+import { type ColorScheme, getOpStyle } from './colors'
+
+/**
+ * Elements referenced by id from the figure's defs (arrowheads, hatch patterns and clip paths),
+ * and the canvas patterns made from the hatches so far
+ */
+type Definitions = {
+  nodes: Map<string, SVGNode>
+  patterns: Map<string, CanvasPattern | null>
+}
+
+const num = (node: SVGNode, name: string, fallback = 0) => {
+  const value = node.attrs[name]
+  return value === undefined ? fallback : Number(value)
+}
+
+const str = (node: SVGNode, name: string) => {
+  const value = node.attrs[name]
+  return value === undefined ? undefined : String(value)
+}
+
+// The id in a url(#id) reference
+const referencedId = (value: string | undefined) => /^url\(#(.+)\)$/.exec(value ?? '')?.[1]
+
+function collectDefinitions(node: SVGNode, definitions: Definitions) {
+  if (node.attrs.id !== undefined) definitions.nodes.set(String(node.attrs.id), node)
+  node.children.forEach(child => {
+    if (typeof child !== 'string') collectDefinitions(child, definitions)
+  })
+}
+
+const textOf = (node: SVGNode) => node.children.filter((child): child is string => typeof child === 'string').join('')
+
+/**
+ * Turns one of the figure's hatch <pattern>s into a canvas pattern by painting a single tile
+ */
+function createHatchPattern(context: CanvasRenderingContext2D, pattern: SVGNode, definitions: Definitions): CanvasPattern | null {
+  const tile = document.createElement('canvas')
+  tile.width = num(pattern, 'width')
+  tile.height = num(pattern, 'height')
+  const tileContext = tile.getContext('2d')
+  if (!tileContext) return null
+  pattern.children.forEach(child => typeof child !== 'string' && paintNode(tileContext, child, definitions))
+  const canvasPattern = context.createPattern(tile, 'repeat')
+  const rotation = /rotate\(([-\d.]+)\)/.exec(str(pattern, 'patternTransform') ?? '')
+  if (canvasPattern && rotation) canvasPattern.setTransform(new DOMMatrix().rotate(Number(rotation[1])))
+  return canvasPattern
+}
+
+function resolvePaint(context: CanvasRenderingContext2D, value: string | undefined, definitions: Definitions): string | CanvasPattern | null {
+  if (value === undefined || value === 'none') return null
+  const id = referencedId(value)
+  if (id === undefined) return value
+  if (!definitions.patterns.has(id)) {
+    const pattern = definitions.nodes.get(id)
+    definitions.patterns.set(id, pattern ? createHatchPattern(context, pattern, definitions) : null)
+  }
+  return definitions.patterns.get(id)!
+}
+
+/**
+ * Draws the arrowhead <marker> a line ends in, scaled by the line's width as SVG does
+ */
+function paintMarker(context: CanvasRenderingContext2D, marker: SVGNode, line: SVGNode) {
+  const polygon = marker.children.find((child): child is SVGNode => typeof child !== 'string' && child.tag === 'polygon')
+  if (!polygon) return
+  const points = String(polygon.attrs.points).split(',').map(point => point.trim().split(/\s+/).map(Number))
+  const [x1, y1, x2, y2] = ['x1', 'y1', 'x2', 'y2'].map(name => num(line, name))
+  const scale = num(line, 'stroke-width', 1)
+
+  context.save()
+  context.translate(x2, y2)
+  context.rotate(Math.atan2(y2 - y1, x2 - x1))
+  context.scale(scale, scale)
+  context.translate(-num(marker, 'refX'), -num(marker, 'refY'))
+  context.beginPath()
+  points.forEach(([x, y], idx) => idx === 0 ? context.moveTo(x, y) : context.lineTo(x, y))
+  context.closePath()
+  context.fillStyle = String(polygon.attrs.fill)
+  context.fill()
+  context.restore()
+}
+
+function paintNode(context: CanvasRenderingContext2D, node: SVGNode, definitions: Definitions) {
+  // Definitions are only painted where they are referenced, and tooltips need the DOM
+  if (['defs', 'marker', 'pattern', 'clipPath', 'title'].includes(node.tag)) return
+
+  context.save()
+  const opacity = num(node, 'opacity', 1)
+  if (opacity !== 1) context.globalAlpha *= opacity
+  const translate = /translate\(([-\d.]+),\s*([-\d.]+)\)/.exec(str(node, 'transform') ?? '')
+  if (translate) context.translate(Number(translate[1]), Number(translate[2]))
+  const clip = definitions.nodes.get(referencedId(str(node, 'clip-path')) ?? '')
+  const clipRect = clip?.children.find((child): child is SVGNode => typeof child !== 'string' && child.tag === 'rect')
+  if (clipRect) {
+    context.beginPath()
+    context.rect(num(clipRect, 'x'), num(clipRect, 'y'), num(clipRect, 'width'), num(clipRect, 'height'))
+    context.clip()
+  }
+
+  const fill = resolvePaint(context, str(node, 'fill') ?? (node.tag === 'text' ? 'black' : undefined), definitions)
+  const stroke = resolvePaint(context, str(node, 'stroke'), definitions)
+  context.lineWidth = num(node, 'stroke-width', 1)
+  context.setLineDash(str(node, 'stroke-dasharray')?.split(/[\s,]+/).map(Number) ?? [])
+  const strokeShape = (path?: Path2D) => {
+    if (!stroke) return
+    context.save()
+    context.globalAlpha *= num(node, 'stroke-opacity', 1)
+    context.strokeStyle = stroke
+    if (path) context.stroke(path)
+    else context.stroke()
+    context.restore()
+  }
+
+  switch (node.tag) {
+    case 'rect': {
+      const [x, y, width, height] = ['x', 'y', 'width', 'height'].map(name => num(node, name))
+      if (fill) {
+        context.fillStyle = fill
+        context.fillRect(x, y, width, height)
+      }
+      context.beginPath()
+      context.rect(x, y, width, height)
+      strokeShape()
+      break
+    }
+    case 'circle': {
+      context.beginPath()
+      context.arc(num(node, 'cx'), num(node, 'cy'), num(node, 'r'), 0, 2 * Math.PI)
+      if (fill) {
+        context.fillStyle = fill
+        context.fill()
+      }
+      strokeShape()
+      break
+    }
+    case 'line': {
+      context.beginPath()
+      context.moveTo(num(node, 'x1'), num(node, 'y1'))
+      context.lineTo(num(node, 'x2'), num(node, 'y2'))
+      strokeShape()
+      const marker = definitions.nodes.get(referencedId(str(node, 'marker-end')) ?? '')
+      if (marker) {
+        context.globalAlpha *= num(node, 'stroke-opacity', 1)
+        paintMarker(context, marker, node)
+      }
+      break
+    }
+    case 'path': {
+      const path = new Path2D(str(node, 'd'))
+      if (fill) {
+        context.fillStyle = fill
+        context.fill(path)
+      }
+      strokeShape(path)
+      break
+    }
+    case 'text': {
+      const baseline = str(node, 'dominant-baseline')
+      const anchor = str(node, 'text-anchor')
+      context.font = `${str(node, 'font-weight') ?? 400} ${num(node, 'font-size', 12)}px ${str(node, 'font-family') ?? 'sans-serif'}`
+      context.textAlign = anchor === 'middle' ? 'center' : anchor === 'end' ? 'right' : 'left'
+      context.textBaseline = baseline === 'middle' ? 'middle' : 'alphabetic'
+      if (fill) {
+        context.fillStyle = fill
+        context.fillText(textOf(node), num(node, 'x'), num(node, 'y'))
+      }
+      break
+    }
+  }
+
+  node.children.forEach(child => typeof child !== 'string' && paintNode(context, child, definitions))
+  context.restore()
+}
+
+/**
+ * Paints a figure onto a canvas instead of building SVG elements, for schedules too large for the
+ * DOM. The context's current transform places and scales the figure, e.g. to scroll it.
+ * Tooltips from <title> elements have nowhere to go and are skipped.
+ */
+export function paintFigure(context: CanvasRenderingContext2D, figure: Figure) {
+  const definitions: Definitions = { nodes: new Map(), patterns: new Map() }
+  collectDefinitions(figure.root, definitions)
+  paintNode(context, figure.root, definitions)
+}
+
+/**
+ * Draws every operation of a schedule as a plain block stretched over the canvas, for an
+ * overview too small for any detail
+ */
+export function paintOverview(context: CanvasRenderingContext2D, gridData: GridData, colorScheme: ColorScheme) {
+  const { width, height } = context.canvas
+  const numTimesteps = gridData[0]?.length ?? 0
+  const stepWidth = width / Math.max(1, numTimesteps)
+  const rowHeight = height / Math.max(1, gridData.length)
+  context.clearRect(0, 0, width, height)
+  getOperations(gridData).forEach(op => {
+    context.fillStyle = getOpStyle(op.value, op.passType, colorScheme).fill
+    // At least a pixel wide so short operations don't vanish
+    context.fillRect(op.timeIdx * stepWidth, op.gpuIdx * rowHeight, Math.max(1, op.duration * stepWidth), rowHeight)
+  })
+}
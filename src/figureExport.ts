@@ -0,0 +1,228 @@
+import { type CommLatencies, type GridData, formatCellLabel, getOperations, gridUsesChunks, maxOf } from './utils'
+import { type ColorScheme, type Hatch, getOpStyle } from './colors'
+import { resolveSchedule, dependencyReadyTime } from './validation'
+import { type MemoryConfig, computeMemoryBytes } from './memory'
+import { type Annotations, DEFAULT_ANNOTATIONS, stageLabel } from './annotations'
+
+export type ExportFormat = 'svg' | 'png' | 'tikz'
+
+// Dark matches the app; white and transparent suit papers and slides
+export type FigureBackground = 'dark' | 'white' | 'transparent'
+
+export type ExportOptions = {
+  format: ExportFormat
+  background: FigureBackground
+  includeMemory: boolean
+  // Multiplies the figure's size; for PNG this is the pixel density
+  scale: number
+}
+
+export const DEFAULT_EXPORT_OPTIONS: ExportOptions = {
+  format: 'svg',
+  background: 'white',
+  includeMemory: true,
+  scale: 2,
+}
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  svg: 'SVG (vector, PDF-ready)',
+  png: 'PNG',
+  tikz: 'TikZ / LaTeX',
+}
+
+/**
+ * Colors of everything in the figure that isn't an operation
+ */
+export type FigurePalette = {
+  // null leaves the background transparent
+  background: string | null
+  text: string
+  headerFill: string
+  labelFill: string
+  gridLine: string
+  memoryArrow: string
+}
+
+const LIGHT_PALETTE: Omit<FigurePalette, 'background'> = {
+  text: '#222222',
+  headerFill: 'rgba(0, 0, 0, 0.06)',
+  labelFill: 'rgba(0, 0, 0, 0.04)',
+  gridLine: '#d3d3d3',
+  memoryArrow: 'rgba(0, 0, 0, 0.5)',
+}
+
+export const FIGURE_PALETTES: Record<FigureBackground, FigurePalette> = {
+  dark: {
+    background: '#242424',
+    text: '#ffffff',
+    headerFill: 'rgba(255, 255, 255, 0.15)',
+    labelFill: 'rgba(255, 255, 255, 0.1)',
+    gridLine: '#d3d3d3',
+    memoryArrow: 'rgba(255, 255, 255, 0.5)',
+  },
+  white: { background: '#ffffff', ...LIGHT_PALETTE },
+  transparent: { background: null, ...LIGHT_PALETTE },
+}
+
+/**
+ * Draws an SVG document onto a canvas of the given pixel size and encodes it as PNG
+ */
+export function rasterizeSVG(svgText: string, width: number, height: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml;charset=utf-8' }))
+    const image = new Image()
+    image.onload = () => {
+      URL.revokeObjectURL(url)
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(width)
+      canvas.height = Math.round(height)
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('The browser could not encode the PNG')), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('The browser could not draw the SVG'))
+    }
+    image.src = url
+  })
+}
+
+/**
+ * Converts the hsl() and #rrggbb colors used in figures to the six hex digits xcolor expects
+ */
+export function cssColorToHex(color: string): string {
+  const hex = /^#([0-9a-f]{6})$/i.exec(color)
+  if (hex) return hex[1].toUpperCase()
+
+  const hsl = /^hsl\(\s*([\d.]+),\s*([\d.]+)%,\s*([\d.]+)%\s*\)$/i.exec(color)
+  if (!hsl) throw new Error(`Cannot convert color ${color} for TikZ`)
+  const hue = Number(hsl[1])
+  const saturation = Number(hsl[2]) / 100
+  const lightness = Number(hsl[3]) / 100
+  const chroma = saturation * Math.min(lightness, 1 - lightness)
+  const channel = (n: number) => {
+    const k = (n + hue / 30) % 12
+    const value = lightness - chroma * Math.max(-1, Math.min(k - 3, 9 - k, 1))
+    return Math.round(value * 255).toString(16).padStart(2, '0')
+  }
+  return `${channel(0)}${channel(8)}${channel(4)}`.toUpperCase()
+}
+
+// TikZ layout in timestep-sized units: each row is one unit tall with room above for memory
+const TIKZ_ROW_PITCH = 1.6
+const TIKZ_MEMORY_HEIGHT = 0.45
+
+const tikzNumber = (value: number) => String(Number(value.toFixed(3)))
+
+// The patterns library's closest match to each hatch
+const TIKZ_PATTERNS: Record<Hatch, string> = {
+  diagonal: 'north east lines',
+  cross: 'crosshatch',
+  horizontal: 'horizontal lines',
+}
+
+export type TikZOptions = {
+  background: FigureBackground
+  includeMemory: boolean
+  scale: number
+  memoryConfig: MemoryConfig
+  latencies: CommLatencies
+  colorScheme: ColorScheme
+  annotations?: Annotations
+}
+
+// Characters with a meaning in LaTeX, escaped so titles and stage names typeset as written
+const escapeLaTeX = (text: string) => text.replace(/[\\{}$&#^_%~]/g, char => ({
+  '\\': '\\textbackslash{}',
+  '^': '\\textasciicircum{}',
+  '~': '\\textasciitilde{}',
+}[char] ?? `\\${char}`))
+
+/**
+ * Generates a standalone tikzpicture of the schedule: one rectangle per operation labeled with
+ * its microbatch, dependency arrows, and optionally the per-GPU memory curves. Colors and hatches
+ * come from getOpStyle so the figure matches the app; rows take their stage names and the title
+ * sits above.
+ *
+ * Needs \usepackage{tikz} and \usetikzlibrary{arrows.meta, patterns} in the preamble.
+ */
+export function generateTikZ(gridData: GridData, options: TikZOptions): string {
+  const numTimesteps = gridData[0]?.length ?? 0
+  const palette = FIGURE_PALETTES[options.background]
+  const operations = getOperations(gridData)
+  const showChunks = gridUsesChunks(gridData)
+  const rowTop = (gpuIdx: number) => gpuIdx * TIKZ_ROW_PITCH + (options.includeMemory ? TIKZ_MEMORY_HEIGHT + 0.1 : 0)
+  const bottom = rowTop(gridData.length - 1) + 1
+
+  const colorNames = new Map<string, string>()
+  const colorName = (color: string) => {
+    if (!colorNames.has(color)) colorNames.set(color, `pipe${colorNames.size}`)
+    return colorNames.get(color)!
+  }
+  const body: string[] = []
+  const annotations = options.annotations ?? DEFAULT_ANNOTATIONS
+  const title = annotations.title.trim()
+
+  if (palette.background) {
+    body.push(`  \\fill[${colorName(palette.background)}] (-2.2, ${title ? -2 : -1}) rectangle (${numTimesteps + 0.2}, ${tikzNumber(bottom + 0.2)});`)
+  }
+  const textColor = colorName(palette.text)
+
+  if (title) {
+    body.push(`  \\node[anchor=west, text=${textColor}, font=\\sffamily\\bfseries\\large] at (0, -1.4) {${escapeLaTeX(title)}};`)
+  }
+
+  for (let timeIdx = 0; timeIdx < numTimesteps; timeIdx++) {
+    body.push(`  \\node[text=${textColor}] at (${timeIdx + 0.5}, -0.5) {t${timeIdx}};`)
+  }
+
+  gridData.forEach((_, gpuIdx) => {
+    const top = tikzNumber(rowTop(gpuIdx))
+    body.push(`  \\node[anchor=east, text=${textColor}] at (-0.2, ${tikzNumber(rowTop(gpuIdx) + 0.5)}) {${escapeLaTeX(stageLabel(annotations, gpuIdx))}};`)
+    body.push(`  \\draw[gray!40, step=1] (0, ${top}) grid (${numTimesteps}, ${tikzNumber(rowTop(gpuIdx) + 1)});`)
+  })
+
+  if (options.includeMemory) {
+    const memoryUsage = computeMemoryBytes(gridData, options.memoryConfig)
+    const memoryScale = Math.max(options.memoryConfig.capacityBytes, maxOf(memoryUsage.map(row => maxOf(row))), 1)
+    memoryUsage.forEach((row, gpuIdx) => {
+      const base = rowTop(gpuIdx) - 0.05
+      const heightOf = (bytes: number) => tikzNumber(base - (bytes / memoryScale) * TIKZ_MEMORY_HEIGHT)
+      const points = row.flatMap((bytes, timeIdx) => [`(${timeIdx}, ${heightOf(bytes)})`, `(${timeIdx + 1}, ${heightOf(bytes)})`])
+      body.push(`  \\fill[gray, opacity=0.3] (0, ${tikzNumber(base)}) -- ${points.join(' -- ')} -- (${numTimesteps}, ${tikzNumber(base)}) -- cycle;`)
+      const capacity = heightOf(options.memoryConfig.capacityBytes)
+      body.push(`  \\draw[red, dashed, thin] (0, ${capacity}) -- (${numTimesteps}, ${capacity});`)
+    })
+  }
+
+  resolveSchedule(gridData).forEach(op => {
+    const from = op.dependency
+    if (!from) return
+    const invalid = dependencyReadyTime(op, options.latencies)! > op.timeIdx
+    const color = invalid ? 'red' : colorName(getOpStyle(op.microbatch, from.passType, options.colorScheme).accent)
+    const start = `(${tikzNumber(from.timeIdx + from.duration - 0.5)}, ${tikzNumber(rowTop(from.gpuIdx) + 0.5)})`
+    const end = `(${tikzNumber(op.timeIdx + 0.5)}, ${tikzNumber(rowTop(op.gpuIdx) + 0.5)})`
+    body.push(`  \\draw[-{Stealth}, ${color}, ${invalid ? 'dashed' : 'opacity=0.6'}] ${start} -- ${end};`)
+  })
+
+  operations.forEach(op => {
+    const top = rowTop(op.gpuIdx)
+    const style = getOpStyle(op.value, op.passType, options.colorScheme)
+    const corners = `(${op.timeIdx}, ${tikzNumber(top)}) rectangle (${op.timeIdx + op.duration}, ${tikzNumber(top + 1)})`
+    body.push(`  \\filldraw[fill=${colorName(style.fill)}, draw=white] ${corners};`)
+    if (style.hatch) {
+      body.push(`  \\fill[pattern=${TIKZ_PATTERNS[style.hatch]}, pattern color=${colorName(style.hatchColor)}] ${corners};`)
+    }
+    body.push(`  \\node[text=${colorName(style.text)}, font=\\sffamily\\bfseries\\scriptsize] at (${tikzNumber(op.timeIdx + op.duration / 2)}, ${tikzNumber(top + 0.5)}) {${formatCellLabel(op.value, op.chunk, showChunks)}};`)
+  })
+
+  return [
+    '% Pipeline schedule exported from GPU Pipelining Visualization',
+    '% Requires \\usepackage{tikz} and \\usetikzlibrary{arrows.meta, patterns}',
+    ...Array.from(colorNames, ([color, name]) => `\\definecolor{${name}}{HTML}{${cssColorToHex(color)}}`),
+    `\\begin{tikzpicture}[x=0.6cm, y=-0.6cm, scale=${tikzNumber(options.scale)}, transform shape, every node/.style={font=\\sffamily\\scriptsize}]`,
+    ...body,
+    '\\end{tikzpicture}',
+    ''
+  ].join('\n')
+}
@@ -0,0 +1,232 @@
+import {
+  type CommLatencies,
+  type GridData,
+  type Operation,
+  DEFAULT_COMM_LATENCIES,
+  MAX_TIMESTEPS,
+  createEmptyGrid,
+  getOperations,
+  maxOf,
+  minOf,
+  transferLatency
+} from './utils'
+import { type MemoryConfig, countBatchesInMemory, getActivationBytes } from './memory'
+import { type ScheduleOp, resolveSchedule } from './validation'
+
+export type IterationConfig = {
+  // 1 shows the schedule as drawn
+  numIterations: number
+  // Timesteps of optimizer step and pipeline flush after each iteration
+  flushTime: number
+  // Whether each iteration's microbatches are numbered on from the last one's or from the start again
+  numbering: 'continue' | 'restart'
+  // Start the next iteration's forwards on each GPU as soon as the current iteration's forwards are
+  // done there, instead of after every GPU has flushed. Each stage then steps its optimizer on its
+  // own, as in PipeDream.
+  overlap: boolean
+}
+
+export const DEFAULT_ITERATION_CONFIG: IterationConfig = {
+  numIterations: 1,
+  flushTime: 2,
+  numbering: 'continue',
+  overlap: false,
+}
+
+export const MAX_ITERATIONS = 16
+
+/**
+ * What a figure of tiled iterations needs to tell them apart
+ */
+export type IterationView = {
+  // Iteration of each microbatch, by its number in the tiled grid
+  iterationOf: Map<number, number>
+  // Number each microbatch is labeled with
+  labelOf: Map<number, number>
+  // Timesteps where the second and later iterations start
+  boundaries: number[]
+}
+
+export type TiledSchedule = {
+  // Microbatches are numbered on across iterations so every pass stays distinct; the view's
+  // labels restart them when asked to. Optimizer steps carry the number of their iteration.
+  gridData: GridData
+  view: IterationView
+  // Timesteps between the ends of consecutive iterations, on average
+  period: number
+  numMicrobatches: number
+  // Microbatches finished per timestep with iterations back to back, and with each run on its own
+  throughput: number
+  isolatedThroughput: number
+  // Busy share of the GPUs over one period, flushes excluded
+  steadyUtilization: number
+  // Activation bytes each GPU still holds from earlier iterations as it starts a later one,
+  // the most over all boundaries
+  carriedBytes: number[]
+  // Most bytes each GPU holds at once, static memory included
+  peakBytes: number[]
+}
+
+// An operation of one iteration, with the op of the same iteration it waits for
+type PatternOp = Operation & { dependency: PatternOp | null }
+
+/**
+ * Repeats a schedule for several iterations with an optimizer step and flush after each. Without
+ * overlap every GPU waits for the slowest to flush, and each iteration is a copy of the first.
+ * With overlap, the second and later iterations run every op as early as its dependency, the
+ * GPU's order and the previous iteration allow: forwards once the previous iteration's forwards
+ * are done on the GPU, gradient passes once its optimizer step is. Throws if the schedule is
+ * empty or the iterations don't fit in the longest grid.
+ */
+export function tileIterations(
+  gridData: GridData,
+  config: IterationConfig,
+  memoryConfig: MemoryConfig,
+  latencies: CommLatencies = DEFAULT_COMM_LATENCIES
+): TiledSchedule {
+  const numGPUs = gridData.length
+  const operations = getOperations(gridData)
+  const passes = operations.filter(op => op.passType !== 'optimizer')
+  if (passes.length === 0) throw new Error('The schedule has no passes to repeat')
+
+  const start = minOf(operations.map(op => op.timeIdx))
+  const end = maxOf(operations.map(op => op.timeIdx + op.duration))
+  const values = passes.map(op => op.value)
+  // Added once per iteration, so no two iterations share a microbatch number
+  const numberStep = Math.floor(maxOf(values) - minOf(values)) + 1
+  const numMicrobatches = new Set(values).size
+
+  // One iteration: the schedule's own operations, then the flush on every GPU, straight after the
+  // GPU's last operation when iterations overlap
+  const resolved = resolveSchedule(gridData)
+  const patternOf = new Map<ScheduleOp, PatternOp>()
+  const pattern: PatternOp[] = resolved.map(op => {
+    const patternOp: PatternOp = {
+      gpuIdx: op.gpuIdx, timeIdx: op.timeIdx, duration: op.duration,
+      value: op.microbatch, passType: op.passType, chunk: op.chunk, dependency: null,
+    }
+    patternOf.set(op, patternOp)
+    return patternOp
+  })
+  resolved.forEach(op => {
+    if (op.dependency) patternOf.get(op)!.dependency = patternOf.get(op.dependency) ?? null
+  })
+  operations.filter(op => op.passType === 'optimizer').forEach(op => pattern.push({ ...op, dependency: null }))
+  if (config.flushTime > 0) {
+    gridData.forEach((_, gpuIdx) => {
+      const gpuEnd = config.overlap
+        ? maxOf(pattern.filter(op => op.gpuIdx === gpuIdx).map(op => op.timeIdx + op.duration), start)
+        : end
+      pattern.push({ gpuIdx, timeIdx: gpuEnd, value: 0, passType: 'optimizer', duration: config.flushTime, chunk: 0, dependency: null })
+    })
+  }
+  pattern.sort((a, b) => a.timeIdx - b.timeIdx || a.gpuIdx - b.gpuIdx)
+  const length = maxOf(pattern.map(op => op.timeIdx + op.duration)) - start
+
+  const busy = gridData.map(() => new Set<number>())
+  const placed: Array<Operation & { iteration: number }> = []
+  const place = (op: PatternOp, iteration: number, timeIdx: number) => {
+    if (timeIdx + op.duration > MAX_TIMESTEPS) {
+      throw new Error(`${config.numIterations} iterations need more than the ${MAX_TIMESTEPS} timesteps a grid can hold`)
+    }
+    for (let t = timeIdx; t < timeIdx + op.duration; t++) busy[op.gpuIdx].add(t)
+    const isPass = op.passType !== 'optimizer'
+    const value = isPass ? op.value + iteration * numberStep : iteration + 1
+    placed.push({ ...op, timeIdx, value, iteration })
+    return timeIdx
+  }
+
+  let previousStarts = new Map<PatternOp, number>()
+  for (let iteration = 0; iteration < config.numIterations; iteration++) {
+    const starts = new Map<PatternOp, number>()
+    if (!config.overlap || iteration === 0) {
+      pattern.forEach(op => starts.set(op, place(op, iteration, op.timeIdx + iteration * length)))
+    } else {
+      // What the previous iteration leaves each GPU: where its forwards and all its ops are done
+      const forwardsDone = gridData.map(() => 0)
+      const iterationDone = gridData.map(() => 0)
+      previousStarts.forEach((timeIdx, op) => {
+        const opEnd = timeIdx + op.duration
+        if (op.passType === 'forward') forwardsDone[op.gpuIdx] = Math.max(forwardsDone[op.gpuIdx], opEnd)
+        iterationDone[op.gpuIdx] = Math.max(iterationDone[op.gpuIdx], opEnd)
+      })
+      const gpuFree = [...forwardsDone]
+      pattern.forEach(op => {
+        const isGradient = op.passType === 'backward' || op.passType === 'weight'
+        let timeIdx = Math.max(gpuFree[op.gpuIdx], isGradient ? iterationDone[op.gpuIdx] : 0)
+        const from = op.dependency
+        if (from && starts.has(from)) {
+          const ready = starts.get(from)! + from.duration
+          timeIdx = Math.max(timeIdx, from.gpuIdx === op.gpuIdx ? ready : ready + transferLatency(latencies, from.passType))
+        }
+        const fits = (t: number) => Array.from({ length: op.duration }, (_, k) => t + k).every(cell => !busy[op.gpuIdx].has(cell))
+        while (!fits(timeIdx)) timeIdx++
+        starts.set(op, place(op, iteration, timeIdx))
+        gpuFree[op.gpuIdx] = timeIdx + op.duration
+      })
+    }
+    previousStarts = starts
+  }
+
+  const iterationStarts = Array.from({ length: config.numIterations }, (_, iteration) =>
+    minOf(placed.filter(op => op.iteration === iteration).map(op => op.timeIdx))
+  )
+  const iterationEnds = Array.from({ length: config.numIterations }, (_, iteration) =>
+    maxOf(placed.filter(op => op.iteration === iteration).map(op => op.timeIdx + op.duration))
+  )
+  const period = config.numIterations > 1
+    ? (iterationEnds[config.numIterations - 1] - iterationEnds[0]) / (config.numIterations - 1)
+    : length
+
+  const tiled = createEmptyGrid(numGPUs, maxOf(iterationEnds))
+  const iterationOf = new Map<number, number>()
+  const labelOf = new Map<number, number>()
+  placed.forEach(op => {
+    if (op.passType !== 'optimizer') {
+      iterationOf.set(op.value, op.iteration)
+      labelOf.set(op.value, config.numbering === 'continue' ? op.value : op.value - op.iteration * numberStep)
+    }
+    for (let t = op.timeIdx; t < op.timeIdx + op.duration; t++) {
+      tiled[op.gpuIdx][t] = {
+        value: op.value,
+        passType: op.passType,
+        ...(op.chunk > 0 && { chunk: op.chunk }),
+        ...(t > op.timeIdx && { continuation: true }),
+      }
+    }
+  })
+
+  // Before a GPU's first pass of an iteration, only earlier iterations can hold memory on it
+  const firstPasses = gridData.map(() => Array<number>(config.numIterations).fill(Infinity))
+  placed.forEach(op => {
+    if (op.passType !== 'optimizer') {
+      firstPasses[op.gpuIdx][op.iteration] = Math.min(firstPasses[op.gpuIdx][op.iteration], op.timeIdx)
+    }
+  })
+  const batchesInMemory = countBatchesInMemory(tiled)
+  const carriedBytes = gridData.map((_, gpuIdx) => {
+    let carried = 0
+    for (let iteration = 1; iteration < config.numIterations; iteration++) {
+      const firstPass = firstPasses[gpuIdx][iteration]
+      if (Number.isFinite(firstPass) && firstPass > 0) carried = Math.max(carried, batchesInMemory[gpuIdx][firstPass - 1])
+    }
+    return carried * getActivationBytes(memoryConfig, gpuIdx)
+  })
+  const staticBytes = memoryConfig.weightBytes + memoryConfig.optimizerBytes
+  const peakBytes = batchesInMemory.map((row, gpuIdx) =>
+    staticBytes + maxOf(row, 0) * getActivationBytes(memoryConfig, gpuIdx)
+  )
+
+  const busyTime = passes.reduce((sum, op) => sum + op.duration, 0)
+  return {
+    gridData: tiled,
+    view: { iterationOf, labelOf, boundaries: iterationStarts.slice(1) },
+    period,
+    numMicrobatches,
+    throughput: numMicrobatches / period,
+    isolatedThroughput: numMicrobatches / length,
+    steadyUtilization: busyTime / (numGPUs * period),
+    carriedBytes,
+    peakBytes,
+  }
+}
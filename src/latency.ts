@@ -0,0 +1,90 @@
+import { type CommLatencies, type GridData, maxOf, minOf, transferLatency } from './utils'
+import { type ScheduleOp, dependencyReadyTime, resolveSchedule } from './validation'
+
+/**
+ * One pass of a microbatch, with where the time before it went
+ */
+export type PathStep = {
+  op: ScheduleOp
+  // Timestep the op's input was on its GPU; null for ops that depend on nothing, like the first forward
+  readyTime: number | null
+  // Timesteps the input spent being sent from another GPU
+  transferTime: number
+  // Timesteps the input sat ready while the GPU ran other work
+  waitTime: number
+}
+
+export type StageTime = {
+  stage: number
+  gpuIdx: number
+  busyTime: number
+  waitTime: number
+}
+
+export type MicrobatchPath = {
+  microbatch: number
+  // Every pass of the microbatch, in the order they start
+  steps: PathStep[]
+  start: number
+  end: number
+  // From the first forward starting to the first stage's backward finishing. Compute, transfer
+  // and wait time along that forward→backward chain add up to it.
+  latency: number
+  computeTime: number
+  transferTime: number
+  waitTime: number
+  stages: StageTime[]
+}
+
+/**
+ * Follows one microbatch through the schedule: when each of its passes could have started, how
+ * long it then waited for its GPU, and how its end-to-end latency splits into computing,
+ * sending and waiting. Returns null if the microbatch has no passes.
+ */
+export function traceMicrobatch(gridData: GridData, microbatch: number, latencies: CommLatencies): MicrobatchPath | null {
+  const ops = resolveSchedule(gridData)
+    .filter(op => op.microbatch === microbatch && op.role !== 'duplicate')
+    .sort((a, b) => a.timeIdx - b.timeIdx || a.gpuIdx - b.gpuIdx)
+  if (ops.length === 0) return null
+
+  const steps = ops.map((op): PathStep => {
+    const readyTime = dependencyReadyTime(op, latencies)
+    const from = op.dependency
+    return {
+      op,
+      readyTime,
+      transferTime: from && from.gpuIdx !== op.gpuIdx ? transferLatency(latencies, from.passType) : 0,
+      // Ops that start before their input is ready are reported as violations, not negative waits
+      waitTime: readyTime === null ? 0 : Math.max(0, op.timeIdx - readyTime),
+    }
+  })
+
+  // W and recompute passes sit off the chain that carries the microbatch's loss back
+  const chain = steps.filter(step => step.op.role === 'pass' && step.op.passType !== 'recompute')
+  const chainStart = minOf(chain.map(step => step.op.timeIdx))
+  const chainEnd = maxOf(chain.map(step => step.op.timeIdx + step.op.duration))
+  const latency = chain.length > 0 ? chainEnd - chainStart : 0
+  const computeTime = chain.reduce((sum, step) => sum + step.op.duration, 0)
+  const transferTime = chain.reduce((sum, step) => sum + step.transferTime, 0)
+
+  const stages = new Map<number, StageTime>()
+  steps.forEach(({ op, waitTime }) => {
+    const stage = stages.get(op.stage) ?? { stage: op.stage, gpuIdx: op.gpuIdx, busyTime: 0, waitTime: 0 }
+    stage.busyTime += op.duration
+    stage.waitTime += waitTime
+    stages.set(op.stage, stage)
+  })
+
+  return {
+    microbatch,
+    steps,
+    start: minOf(ops.map(op => op.timeIdx)),
+    end: maxOf(ops.map(op => op.timeIdx + op.duration)),
+    latency,
+    computeTime,
+    transferTime,
+    // Whatever isn't computing or in transit, including gaps where a pass is missing
+    waitTime: Math.max(0, latency - computeTime - transferTime),
+    stages: Array.from(stages.values()).sort((a, b) => a.stage - b.stage),
+  }
+}
@@ -0,0 +1,106 @@
+import { type GridData, maxOf } from './utils'
+import { resolveSchedule } from './validation'
+
+export const BYTES_PER_GB = 1e9
+
+export type MemoryConfig = {
+  // Activation bytes one microbatch keeps alive on each stage until its backward finishes.
+  // Stages past the end of the list reuse its last entry.
+  activationBytes: number[]
+  // Static memory held for the whole iteration
+  weightBytes: number
+  optimizerBytes: number
+  // Device memory; timesteps above it would run out of memory
+  capacityBytes: number
+}
+
+export const DEFAULT_MEMORY_CONFIG: MemoryConfig = {
+  activationBytes: [2 * BYTES_PER_GB],
+  weightBytes: 10 * BYTES_PER_GB,
+  optimizerBytes: 20 * BYTES_PER_GB,
+  capacityBytes: 80 * BYTES_PER_GB,
+}
+
+// Share of a microbatch's activations a backward keeps alive for the W pass that follows it
+export const WEIGHT_GRAD_ACTIVATION_SHARE = 0.5
+// Share a forward keeps as checkpoints when a recompute pass rebuilds the rest before the backward
+export const CHECKPOINT_ACTIVATION_SHARE = 0.25
+
+/**
+ * Counts the microbatches each GPU holds activations for at each timestep. A microbatch enters
+ * memory when its forward starts and leaves once its backward finishes. In interleaved schedules
+ * this happens per chunk, and each chunk holds its share of the stage's activations, so a
+ * microbatch that has only run one of two chunks on a GPU counts as half.
+ *
+ * Split backwards and recompute hold partial activations: a backward followed by a W pass
+ * keeps what the W needs until the W finishes, and a forward whose activations are recomputed
+ * only keeps its checkpoints until the recompute starts.
+ */
+export function countBatchesInMemory(gridData: GridData): number[][] {
+  const numGPUs = gridData.length
+  const ops = resolveSchedule(gridData).filter(op => op.role !== 'duplicate')
+  const numChunks = maxOf(ops.map(op => Math.floor(op.stage / numGPUs)), 0) + 1
+  const hasPass = new Set(ops.map(op => `${op.role === 'weight' ? 'weight' : op.passType}-${op.microbatch}-${op.stage}`))
+
+  // Share of its activations a microbatch holds on a stage from a timestep on. At most one op
+  // starts or ends per GPU and timestep.
+  const events = gridData.map(() => new Map<number, { key: string; share: number }>())
+  ops.forEach(op => {
+    const key = `${op.microbatch}-${op.stage}`
+    if (op.role === 'weight') {
+      events[op.gpuIdx].set(op.timeIdx + op.duration - 1, { key, share: 0 })
+    } else if (op.passType === 'forward') {
+      const share = hasPass.has(`recompute-${key}`) ? CHECKPOINT_ACTIVATION_SHARE : 1
+      events[op.gpuIdx].set(op.timeIdx, { key, share })
+    } else if (op.passType === 'recompute') {
+      events[op.gpuIdx].set(op.timeIdx, { key, share: 1 })
+    } else if (op.passType === 'backward') {
+      const share = hasPass.has(`weight-${key}`) ? WEIGHT_GRAD_ACTIVATION_SHARE : 0
+      events[op.gpuIdx].set(op.timeIdx + op.duration - 1, { key, share })
+    }
+  })
+
+  return gridData.map((row, gpuIdx) => {
+    const batchesInMemory = new Map<string, number>()
+    let held = 0
+    return row.map((_, timeIdx) => {
+      const event = events[gpuIdx].get(timeIdx)
+      if (event) {
+        held += event.share - (batchesInMemory.get(event.key) ?? 0)
+        batchesInMemory.set(event.key, event.share)
+      }
+      // Record usage after processing this timestep's events
+      return held / numChunks
+    })
+  })
+}
+
+export function getActivationBytes(config: MemoryConfig, gpuIdx: number): number {
+  const { activationBytes } = config
+  return activationBytes[Math.min(gpuIdx, activationBytes.length - 1)] ?? 0
+}
+
+/**
+ * Computes the bytes each GPU holds at each timestep: static weights and optimizer state plus
+ * the activations of every microbatch in memory
+ */
+export function computeMemoryBytes(gridData: GridData, config: MemoryConfig): number[][] {
+  const staticBytes = config.weightBytes + config.optimizerBytes
+  return countBatchesInMemory(gridData).map((row, gpuIdx) =>
+    row.map(count => staticBytes + count * getActivationBytes(config, gpuIdx))
+  )
+}
+
+/**
+ * Parses a comma-separated list of non-negative GB values, one per stage. Returns null if any
+ * entry isn't a number.
+ */
+export function parseStageGB(text: string): number[] | null {
+  const values = text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number)
+  if (values.length === 0 || values.some(value => isNaN(value) || value < 0)) return null
+  return values.map(value => value * BYTES_PER_GB)
+}
+
+export function formatGB(bytes: number): string {
+  return `${(bytes / BYTES_PER_GB).toFixed(1)} GB`
+}
@@ -0,0 +1,107 @@
+import { type GridData, getOperations, maxOf, minOf } from './utils'
+
+export type GPUMetrics = {
+  gpuIdx: number
+  // Timesteps spent running operations
+  busyTime: number
+  // Idle timesteps between this GPU's first and last operation
+  bubbleTime: number
+  // Busy share of the whole schedule's makespan
+  utilization: number
+}
+
+export type ScheduleMetrics = {
+  makespan: number
+  numMicrobatches: number
+  perGPU: GPUMetrics[]
+  // Idle share of all GPUs over the makespan, comparable to the theoretical bubble fraction
+  bubbleRatio: number
+  theoreticalBubbleRatio: number
+  warmup: number
+  steady: number
+  cooldown: number
+}
+
+/**
+ * Where the pipeline fills, runs full and drains. Each phase ends where the next starts, so any
+ * of them may be empty.
+ */
+export type SchedulePhases = {
+  start: number
+  warmupEnd: number
+  cooldownStart: number
+  end: number
+}
+
+/**
+ * Warmup runs until the first backward starts and cooldown from the moment the last forward
+ * finishes; the steady state is whatever lies between. Returns null for an empty schedule.
+ */
+export function detectPhases(gridData: GridData): SchedulePhases | null {
+  const operations = getOperations(gridData)
+  if (operations.length === 0) return null
+  const start = minOf(operations.map(op => op.timeIdx))
+  const end = maxOf(operations.map(op => op.timeIdx + op.duration))
+  const backwards = operations.filter(op => op.passType === 'backward')
+  const forwards = operations.filter(op => op.passType === 'forward')
+  const warmupEnd = minOf(backwards.map(op => op.timeIdx), end)
+  const lastForwardEnd = maxOf(forwards.map(op => op.timeIdx + op.duration), start)
+  return { start, warmupEnd, cooldownStart: Math.max(warmupEnd, lastForwardEnd), end }
+}
+
+/**
+ * Computes pipeline efficiency metrics. Only the span from the first operation to the last
+ * counts, so empty timesteps after the schedule don't change anything. Phases are split as in
+ * detectPhases.
+ */
+export function computeMetrics(gridData: GridData): ScheduleMetrics {
+  const numGPUs = gridData.length
+  const operations = getOperations(gridData)
+  const numMicrobatches = new Set(operations.filter(op => op.passType !== 'optimizer').map(op => op.value)).size
+  const theoreticalBubbleRatio = numMicrobatches > 0 ? (numGPUs - 1) / (numMicrobatches + numGPUs - 1) : 0
+
+  if (operations.length === 0) {
+    return {
+      makespan: 0,
+      numMicrobatches,
+      perGPU: gridData.map((_, gpuIdx) => ({ gpuIdx, busyTime: 0, bubbleTime: 0, utilization: 0 })),
+      bubbleRatio: 0,
+      theoreticalBubbleRatio,
+      warmup: 0,
+      steady: 0,
+      cooldown: 0,
+    }
+  }
+
+  const start = minOf(operations.map(op => op.timeIdx))
+  const end = maxOf(operations.map(op => op.timeIdx + op.duration))
+  const makespan = end - start
+
+  const perGPU = gridData.map((_, gpuIdx) => {
+    const gpuOps = operations.filter(op => op.gpuIdx === gpuIdx)
+    const busyTime = gpuOps.reduce((sum, op) => sum + op.duration, 0)
+    if (gpuOps.length === 0) return { gpuIdx, busyTime, bubbleTime: 0, utilization: 0 }
+    const activeStart = minOf(gpuOps.map(op => op.timeIdx))
+    const activeEnd = maxOf(gpuOps.map(op => op.timeIdx + op.duration))
+    return {
+      gpuIdx,
+      busyTime,
+      bubbleTime: activeEnd - activeStart - busyTime,
+      utilization: busyTime / makespan,
+    }
+  })
+  const totalBusy = perGPU.reduce((sum, gpu) => sum + gpu.busyTime, 0)
+
+  const { warmupEnd, cooldownStart } = detectPhases(gridData)!
+
+  return {
+    makespan,
+    numMicrobatches,
+    perGPU,
+    bubbleRatio: 1 - totalBusy / (numGPUs * makespan),
+    theoreticalBubbleRatio,
+    warmup: warmupEnd - start,
+    steady: cooldownStart - warmupEnd,
+    cooldown: end - cooldownStart,
+  }
+}
@@ -0,0 +1,101 @@
+import { type GridData, getOperations, maxOf, minOf } from './utils'
+
+export type ParallelConfig = {
+  // Pipeline replicas that each see a different slice of the batch
+  dataParallel: number
+  // GPUs that split every stage's layers between them
+  tensorParallel: number
+  // Timesteps the gradient all-reduce across data-parallel replicas takes for one stage
+  allReduceTime: number
+  // Timesteps the optimizer step takes once a stage's gradients are reduced
+  optimizerTime: number
+  // Start reducing gradient buckets during the stage's last backward instead of after it
+  overlapAllReduce: boolean
+}
+
+export const DEFAULT_PARALLEL_CONFIG: ParallelConfig = {
+  dataParallel: 1,
+  tensorParallel: 1,
+  allReduceTime: 2,
+  optimizerTime: 0,
+  overlapAllReduce: true,
+}
+
+export const MAX_PARALLEL_DEGREE = 64
+
+/**
+ * The gradient sync and optimizer step that end an iteration on one pipeline stage
+ */
+export type SyncPhase = {
+  gpuIdx: number
+  allReduceStart: number
+  allReduceEnd: number
+  optimizerStart: number
+  optimizerEnd: number
+}
+
+/**
+ * Places the end-of-iteration phase on every stage that ran any backward. The all-reduce only
+ * exists with more than one data-parallel replica. It runs on its own stream, so with overlap it
+ * starts with the stage's last backward or W pass, but it can't finish before that pass produces
+ * the last gradients. The optimizer step then runs on the compute stream, unless the grid
+ * already has one on that GPU.
+ */
+export function computeSyncPhases(gridData: GridData, config: ParallelConfig): SyncPhase[] {
+  const operations = getOperations(gridData)
+  const phases: SyncPhase[] = []
+
+  gridData.forEach((_, gpuIdx) => {
+    const gpuOps = operations.filter(op => op.gpuIdx === gpuIdx)
+    const gradientPasses = gpuOps.filter(op => op.passType === 'backward' || op.passType === 'weight')
+    if (gradientPasses.length === 0) return
+
+    const lastGradientPass = gradientPasses.reduce((last, op) =>
+      op.timeIdx + op.duration > last.timeIdx + last.duration ? op : last
+    )
+    const lastGradientEnd = lastGradientPass.timeIdx + lastGradientPass.duration
+    const allReduceTime = config.dataParallel > 1 ? config.allReduceTime : 0
+    const allReduceStart = config.overlapAllReduce ? lastGradientPass.timeIdx : lastGradientEnd
+    const allReduceEnd = Math.max(allReduceStart + allReduceTime, lastGradientEnd)
+    const computeFree = maxOf(gpuOps.map(op => op.timeIdx + op.duration))
+    const optimizerStart = Math.max(allReduceEnd, computeFree)
+    const optimizerTime = gpuOps.some(op => op.passType === 'optimizer') ? 0 : config.optimizerTime
+
+    phases.push({
+      gpuIdx,
+      allReduceStart,
+      allReduceEnd,
+      optimizerStart,
+      optimizerEnd: optimizerStart + optimizerTime,
+    })
+  })
+
+  return phases
+}
+
+/**
+ * Time from the first operation to the last stage finishing its optimizer step
+ */
+export function computeStepTime(gridData: GridData, phases: SyncPhase[]): number {
+  const operations = getOperations(gridData)
+  if (operations.length === 0) return 0
+  const start = minOf(operations.map(op => op.timeIdx))
+  const end = Math.max(maxOf(operations.map(op => op.timeIdx + op.duration)), maxOf(phases.map(phase => phase.optimizerEnd)))
+  return end - start
+}
+
+/**
+ * Labels a row by its place in the data- and pipeline-parallel grid, e.g. dp1/pp2
+ */
+export function rankLabel(replicaIdx: number, gpuIdx: number): string {
+  return `dp${replicaIdx}/pp${gpuIdx}`
+}
+
+/**
+ * Global ranks of the tensor-parallel group that runs one stage of one replica, in Megatron's
+ * order: tensor-parallel ranks are adjacent, then data-parallel, then pipeline-parallel
+ */
+export function globalRanks(replicaIdx: number, gpuIdx: number, config: ParallelConfig): number[] {
+  const first = (gpuIdx * config.dataParallel + replicaIdx) * config.tensorParallel
+  return Array(config.tensorParallel).fill(0).map((_, tpIdx) => first + tpIdx)
+}
@@ -0,0 +1,204 @@
+import { type CommLatencies, type GridData, type PassType, calculateBlankCount, createEmptyGrid } from './utils'
+
+export type SearchOptions = {
+  numGPUs: number
+  numMicrobatches: number
+  // Timesteps each stage's forward and backward take. Stages past the end of a list reuse its
+  // last entry, so imbalanced pipelines can give every stage its own cost.
+  forwardDurations: number[]
+  backwardDurations: number[]
+  // Microbatches a GPU may hold activations for at once, as counted by countBatchesInMemory
+  maxInFlight: number
+  latencies: CommLatencies
+  // Search nodes to explore before settling for the best schedule found
+  nodeBudget: number
+}
+
+export const DEFAULT_NODE_BUDGET = 200000
+
+export type SearchResult = {
+  gridData: GridData
+  makespan: number
+  // Idle timesteps inside each GPU's span of work, summed over GPUs
+  bubbleTime: number
+  // Empty cells of the grid, as calculateBlankCount reports them
+  blankCount: number
+}
+
+export type SearchProgress = {
+  explored: number
+  nodeBudget: number
+  best: SearchResult | null
+}
+
+/**
+ * What the search worker posts back: progress while it runs, then the outcome. `exhaustive`
+ * means no schedule of the searched kind beats the result.
+ */
+export type SearchMessage =
+  | { type: 'progress'; progress: SearchProgress }
+  | { type: 'done'; result: SearchResult | null; explored: number; exhaustive: boolean }
+  | { type: 'error'; message: string }
+
+// Nodes between progress reports
+const PROGRESS_INTERVAL = 2000
+
+type Placement = {
+  gpuIdx: number
+  microbatch: number
+  passType: PassType
+  timeIdx: number
+  duration: number
+}
+
+/**
+ * Parses a comma-separated list of per-stage durations in whole timesteps. Returns null if any
+ * entry isn't a positive integer.
+ */
+export function parseStageDurations(text: string): number[] | null {
+  const values = text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number)
+  if (values.length === 0 || values.some(value => !Number.isInteger(value) || value < 1)) return null
+  return values
+}
+
+const stageValue = (values: number[], gpuIdx: number) => values[Math.min(gpuIdx, values.length - 1)]
+
+/**
+ * Branch-and-bound search for the schedule with the smallest makespan, then the least bubble
+ * time. Each GPU runs its forwards and its backwards in microbatch order, so a schedule is fixed
+ * by how every GPU interleaves the two. Ops are placed in order of start time, each as early as
+ * its dependencies allow; whenever a GPU could run either its next forward or its next backward,
+ * both orders are explored. A forward is only allowed while the GPU holds fewer than
+ * `maxInFlight` microbatches.
+ *
+ * Branches that can't beat the best schedule so far are pruned: no GPU can finish before it has
+ * run all its remaining work. `onProgress` is called every few thousand nodes.
+ */
+export function searchSchedule(
+  options: SearchOptions,
+  onProgress?: (progress: SearchProgress) => void
+): { result: SearchResult | null; explored: number; exhaustive: boolean } {
+  const { numGPUs, numMicrobatches, maxInFlight, latencies, nodeBudget } = options
+  if (numGPUs < 1 || numMicrobatches < 1) {
+    throw new Error('A schedule needs at least one GPU and one microbatch')
+  }
+  if (maxInFlight < 1) {
+    throw new Error('Each GPU must be able to hold at least one microbatch')
+  }
+  const forwardDuration = Array(numGPUs).fill(0).map((_, gpuIdx) => stageValue(options.forwardDurations, gpuIdx))
+  const backwardDuration = Array(numGPUs).fill(0).map((_, gpuIdx) => stageValue(options.backwardDurations, gpuIdx))
+  const lastGPU = numGPUs - 1
+
+  // Search state, updated in place and undone on backtracking
+  const busyUntil = Array(numGPUs).fill(0)
+  const firstStart: Array<number | null> = Array(numGPUs).fill(null)
+  const nextForward = Array(numGPUs).fill(0)
+  const nextBackward = Array(numGPUs).fill(0)
+  const remainingWork = forwardDuration.map((f, gpuIdx) => (f + backwardDuration[gpuIdx]) * numMicrobatches)
+  const forwardEnd = Array(numGPUs).fill(null).map(() => Array(numMicrobatches).fill(Infinity))
+  const backwardEnd = Array(numGPUs).fill(null).map(() => Array(numMicrobatches).fill(Infinity))
+  const placements: Placement[] = []
+  let bubbleTime = 0
+
+  let best: SearchResult | null = null
+  let bestBubbleTime = Infinity
+  let explored = 0
+  let outOfBudget = false
+
+  const forwardReady = (gpuIdx: number): number => {
+    const mb = nextForward[gpuIdx]
+    if (mb >= numMicrobatches || mb - nextBackward[gpuIdx] >= maxInFlight) return Infinity
+    return gpuIdx === 0 ? 0 : forwardEnd[gpuIdx - 1][mb] + latencies.activation
+  }
+
+  const backwardReady = (gpuIdx: number): number => {
+    const mb = nextBackward[gpuIdx]
+    if (mb >= nextForward[gpuIdx]) return Infinity
+    return gpuIdx === lastGPU ? forwardEnd[gpuIdx][mb] : backwardEnd[gpuIdx + 1][mb] + latencies.gradient
+  }
+
+  const place = (gpuIdx: number, passType: PassType, timeIdx: number) => {
+    const isForward = passType === 'forward'
+    const duration = isForward ? forwardDuration[gpuIdx] : backwardDuration[gpuIdx]
+    const microbatch = isForward ? nextForward[gpuIdx]++ : nextBackward[gpuIdx]++
+    ;(isForward ? forwardEnd : backwardEnd)[gpuIdx][microbatch] = timeIdx + duration
+    const idle = firstStart[gpuIdx] === null ? 0 : timeIdx - busyUntil[gpuIdx]
+    placements.push({ gpuIdx, microbatch, passType, timeIdx, duration })
+    const undo = { busyUntil: busyUntil[gpuIdx], firstStart: firstStart[gpuIdx], idle }
+    if (firstStart[gpuIdx] === null) firstStart[gpuIdx] = timeIdx
+    busyUntil[gpuIdx] = timeIdx + duration
+    remainingWork[gpuIdx] -= duration
+    bubbleTime += idle
+    return () => {
+      placements.pop()
+      isForward ? nextForward[gpuIdx]-- : nextBackward[gpuIdx]--
+      ;(isForward ? forwardEnd : backwardEnd)[gpuIdx][microbatch] = Infinity
+      busyUntil[gpuIdx] = undo.busyUntil
+      firstStart[gpuIdx] = undo.firstStart
+      remainingWork[gpuIdx] += duration
+      bubbleTime -= undo.idle
+    }
+  }
+
+  const recordSchedule = () => {
+    const makespan = Math.max(...busyUntil)
+    if (best && (makespan > best.makespan || (makespan === best.makespan && bubbleTime >= bestBubbleTime))) return
+    const gridData = createEmptyGrid(numGPUs, makespan)
+    placements.forEach(op => {
+      for (let t = 0; t < op.duration; t++) {
+        gridData[op.gpuIdx][op.timeIdx + t] = {
+          value: op.microbatch + 1,
+          passType: op.passType,
+          ...(t > 0 && { continuation: true })
+        }
+      }
+    })
+    best = { gridData, makespan, bubbleTime, blankCount: calculateBlankCount(gridData) }
+    bestBubbleTime = bubbleTime
+  }
+
+  const visit = () => {
+    if (outOfBudget) return
+    explored++
+    if (explored >= nodeBudget) outOfBudget = true
+    if (onProgress && explored % PROGRESS_INTERVAL === 0) onProgress({ explored, nodeBudget, best })
+
+    // No GPU finishes before its remaining work has run
+    const lowerBound = Math.max(...busyUntil.map((time, gpuIdx) => time + remainingWork[gpuIdx]))
+    if (best && (lowerBound > best.makespan || (lowerBound === best.makespan && bubbleTime >= bestBubbleTime))) return
+
+    // Branch on the GPU that can start something soonest
+    let gpuIdx = -1
+    let forwardStart = Infinity
+    let backwardStart = Infinity
+    for (let g = 0; g < numGPUs; g++) {
+      const f = Math.max(busyUntil[g], forwardReady(g))
+      const b = Math.max(busyUntil[g], backwardReady(g))
+      if (Math.min(f, b) < Math.min(forwardStart, backwardStart)) {
+        gpuIdx = g
+        forwardStart = f
+        backwardStart = b
+      }
+    }
+    if (gpuIdx === -1) {
+      // Either every op is placed or the memory cap left no GPU anything to run
+      if (remainingWork.every(work => work === 0)) recordSchedule()
+      return
+    }
+
+    // Backward first: it frees memory, so the first schedule found is 1F1B-like
+    if (backwardStart < Infinity) {
+      const undo = place(gpuIdx, 'backward', backwardStart)
+      visit()
+      undo()
+    }
+    if (forwardStart < Infinity) {
+      const undo = place(gpuIdx, 'forward', forwardStart)
+      visit()
+      undo()
+    }
+  }
+
+  visit()
+  return { result: best, explored, exhaustive: !outOfBudget }
+}
@@ -0,0 +1,13 @@
+import { type SearchMessage, type SearchOptions, searchSchedule } from './scheduleSearch'
+
+// Runs the search off the main thread; the page cancels it by terminating the worker
+const post = (message: SearchMessage) => self.postMessage(message)
+
+self.onmessage = (event: MessageEvent<SearchOptions>) => {
+  try {
+    const { result, explored, exhaustive } = searchSchedule(event.data, progress => post({ type: 'progress', progress }))
+    post({ type: 'done', result, explored, exhaustive })
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -0,0 +1,404 @@
+import {
+  type CommLatencies,
+  type GridData,
+  type PassDurations,
+  type PassType,
+  DEFAULT_COMM_LATENCIES,
+  DEFAULT_PASS_DURATIONS,
+  chunkLetter,
+  createEmptyGrid,
+  getOperations,
+  maxOf
+} from './utils'
+import { resolveSchedule } from './validation'
+
+export type ScheduleKind = 'gpipe' | '1f1b' | 'interleaved-1f1b' | 'zb-h1' | 'zb-h2'
+
+export const SCHEDULE_LABELS: Record<ScheduleKind, string> = {
+  'gpipe': 'GPipe',
+  '1f1b': '1F1B (PipeDream-Flush)',
+  'interleaved-1f1b': 'Interleaved 1F1B',
+  'zb-h1': 'ZB-H1',
+  'zb-h2': 'ZB-H2',
+}
+
+// Enough for real runs with many microbatches, thousands of timesteps long
+export const MAX_GENERATED_MICROBATCHES = 1024
+
+export type ScheduleOptions = {
+  numGPUs: number
+  numMicrobatches: number
+  // Model chunks per GPU, only used by the interleaved schedule
+  numChunks?: number
+  durations?: PassDurations
+  // Sends between GPUs delay the receiving op by this many timesteps
+  latencies?: CommLatencies
+}
+
+// F = forward, B = backward (input gradient), W = weight gradient, R = recompute, O = optimizer step
+type Op = {
+  kind: 'F' | 'B' | 'W' | 'R' | 'O'
+  microbatch: number
+  chunk: number
+  // Timesteps the GPU stalls before it starts the op
+  delay?: number
+}
+
+type PlacedOp<T extends Op = Op> = T & { gpuIdx: number; timeIdx: number; duration: number }
+
+const opKey = (kind: Op['kind'], microbatch: number, stage: number) => `${kind}-${microbatch}-${stage}`
+
+/**
+ * Tracks finished operations and answers whether an op's pipeline dependencies are met,
+ * including the time a dependency's output takes to arrive from another GPU.
+ * Stages are virtual: chunk c on GPU g is stage c * numGPUs + g.
+ */
+class DependencyTracker {
+  private finishTimes = new Map<string, number>()
+
+  constructor(private numGPUs: number, private numStages: number, private latencies: CommLatencies) {}
+
+  stageOf(op: Op, gpuIdx: number): number {
+    return op.chunk * this.numGPUs + gpuIdx
+  }
+
+  /**
+   * Kind and stage of the op whose output this op waits for, and the send latency on top of its
+   * finish. Optimizer steps only wait for the ops before them on their own GPU.
+   */
+  dependencyOf(op: Op, gpuIdx: number): { kind: Op['kind']; stage: number; latency: number } | null {
+    const stage = this.stageOf(op, gpuIdx)
+    if (op.kind === 'F') {
+      if (stage === 0) return null
+      return { kind: 'F', stage: stage - 1, latency: this.latencyFrom(stage - 1, gpuIdx, this.latencies.activation) }
+    }
+    if (op.kind === 'B' && stage < this.numStages - 1) {
+      return { kind: 'B', stage: stage + 1, latency: this.latencyFrom(stage + 1, gpuIdx, this.latencies.gradient) }
+    }
+    if (op.kind === 'O') return null
+    return { kind: op.kind === 'W' ? 'B' : 'F', stage, latency: 0 }
+  }
+
+  isReady(op: Op, gpuIdx: number, timeIdx: number): boolean {
+    const dependency = this.dependencyOf(op, gpuIdx)
+    if (dependency === null) return true
+    const finish = this.finishTimes.get(opKey(dependency.kind, op.microbatch, dependency.stage))
+    return finish !== undefined && finish + dependency.latency <= timeIdx
+  }
+
+  // Sends only cost time when the dependency ran on another GPU
+  private latencyFrom(stage: number, gpuIdx: number, latency: number): number {
+    return stage % this.numGPUs === gpuIdx ? 0 : latency
+  }
+
+  finish(op: PlacedOp) {
+    this.finishTimes.set(opKey(op.kind, op.microbatch, this.stageOf(op, op.gpuIdx)), op.timeIdx + op.duration)
+  }
+}
+
+const PASS_TYPE_OF_KIND: Record<Op['kind'], PassType> = {
+  F: 'forward',
+  B: 'backward',
+  W: 'weight',
+  R: 'recompute',
+  O: 'optimizer',
+}
+
+const KIND_OF_PASS_TYPE = Object.fromEntries(
+  Object.entries(PASS_TYPE_OF_KIND).map(([kind, passType]) => [passType, kind])
+) as Record<PassType, Op['kind']>
+
+/**
+ * Runs the placement loop: each free GPU may start the op chosen by `pick` at the current timestep.
+ * `describeStall` explains a deadlock in the error it raises.
+ */
+function simulate<T extends Op>(
+  numGPUs: number,
+  numStages: number,
+  total: number,
+  duration: (op: T) => number,
+  latencies: CommLatencies,
+  pick: (gpuIdx: number, timeIdx: number, tracker: DependencyTracker) => T | null,
+  describeStall: () => string = () => 'the op order violates pipeline dependencies'
+): PlacedOp<T>[] {
+  const tracker = new DependencyTracker(numGPUs, numStages, latencies)
+  const maxLatency = Math.max(latencies.activation, latencies.gradient)
+  const busyUntil = Array(numGPUs).fill(0)
+  const placed: PlacedOp<T>[] = []
+
+  for (let timeIdx = 0; placed.length < total; timeIdx++) {
+    const placedNow: PlacedOp<T>[] = []
+    for (let gpuIdx = 0; gpuIdx < numGPUs; gpuIdx++) {
+      if (busyUntil[gpuIdx] > timeIdx) continue
+      const op = pick(gpuIdx, timeIdx, tracker)
+      if (!op) continue
+      const placedOp = { ...op, gpuIdx, timeIdx: timeIdx + (op.delay ?? 0), duration: duration(op) }
+      busyUntil[gpuIdx] = placedOp.timeIdx + placedOp.duration
+      placedNow.push(placedOp)
+    }
+    // With nothing started, running or in transit, no op can ever become ready
+    if (placedNow.length === 0 && Math.max(...busyUntil) + maxLatency <= timeIdx) {
+      throw new Error(`Schedule deadlocked: ${describeStall()}`)
+    }
+    placedNow.forEach(op => tracker.finish(op))
+    placed.push(...placedNow)
+  }
+
+  return placed
+}
+
+/**
+ * Places each GPU's ops in the given order, each at the earliest timestep its dependencies allow
+ */
+function placeInOrder<T extends Op>(
+  orders: T[][],
+  numStages: number,
+  duration: (op: T) => number,
+  latencies: CommLatencies,
+  describeStall?: (next: Array<T | undefined>) => string
+): PlacedOp<T>[] {
+  const next = orders.map(() => 0)
+  const total = orders.reduce((sum, order) => sum + order.length, 0)
+
+  return simulate(orders.length, numStages, total, duration, latencies, (gpuIdx, timeIdx, tracker) => {
+    const op = orders[gpuIdx][next[gpuIdx]]
+    if (!op || !tracker.isReady(op, gpuIdx, timeIdx)) return null
+    next[gpuIdx]++
+    return op
+  }, describeStall && (() => describeStall(orders.map((order, gpuIdx) => order[next[gpuIdx]]))))
+}
+
+/**
+ * Writes placed ops into a grid sized to their makespan
+ */
+function placedToGrid(numGPUs: number, placed: PlacedOp[]): GridData {
+  const makespan = Math.max(1, maxOf(placed.map(op => op.timeIdx + op.duration)))
+  const grid = createEmptyGrid(numGPUs, makespan)
+  placed.forEach(op => {
+    for (let t = 0; t < op.duration; t++) {
+      grid[op.gpuIdx][op.timeIdx + t] = {
+        value: op.microbatch,
+        passType: PASS_TYPE_OF_KIND[op.kind],
+        ...(op.chunk > 0 && { chunk: op.chunk }),
+        ...(t > 0 && { continuation: true })
+      }
+    }
+  })
+  return grid
+}
+
+/**
+ * Greedy zero-bubble placement: a free GPU runs a ready B, else a F if it has fewer than its
+ * limit of microbatches awaiting backward, else a pending W
+ */
+function placeZeroBubble(
+  numGPUs: number,
+  numMicrobatches: number,
+  duration: (op: Op) => number,
+  latencies: CommLatencies,
+  inFlightLimit: (gpuIdx: number) => number
+): PlacedOp[] {
+  const state = Array(numGPUs).fill(null).map(() => ({
+    nextForward: 1,
+    nextBackward: 1,
+    pendingWeights: [] as number[],
+  }))
+
+  return simulate(numGPUs, numGPUs, numGPUs * numMicrobatches * 3, duration, latencies, (gpuIdx, timeIdx, tracker) => {
+    const gpu = state[gpuIdx]
+    const backward: Op = { kind: 'B', microbatch: gpu.nextBackward, chunk: 0 }
+    const forward: Op = { kind: 'F', microbatch: gpu.nextForward, chunk: 0 }
+    const inFlight = gpu.nextForward - gpu.nextBackward
+
+    if (gpu.nextBackward <= numMicrobatches && tracker.isReady(backward, gpuIdx, timeIdx)) {
+      gpu.nextBackward++
+      gpu.pendingWeights.push(backward.microbatch)
+      return backward
+    }
+    if (gpu.nextForward <= numMicrobatches && inFlight < inFlightLimit(gpuIdx)
+      && tracker.isReady(forward, gpuIdx, timeIdx)) {
+      gpu.nextForward++
+      return forward
+    }
+    if (gpu.pendingWeights.length > 0) {
+      return { kind: 'W', microbatch: gpu.pendingWeights.shift()!, chunk: 0 }
+    }
+    return null
+  })
+}
+
+function gpipeOrders(numGPUs: number, numMicrobatches: number): Op[][] {
+  return Array(numGPUs).fill(null).map(() => {
+    const order: Op[] = []
+    for (let mb = 1; mb <= numMicrobatches; mb++) order.push({ kind: 'F', microbatch: mb, chunk: 0 })
+    for (let mb = 1; mb <= numMicrobatches; mb++) order.push({ kind: 'B', microbatch: mb, chunk: 0 })
+    return order
+  })
+}
+
+/**
+ * Warmup forwards, then alternate one forward and one backward, then drain the remaining backwards
+ */
+function oneForwardOneBackward(forwards: Op[], backwards: Op[], numWarmup: number): Op[] {
+  const warmup = Math.min(numWarmup, forwards.length)
+  const order: Op[] = forwards.slice(0, warmup)
+  for (let i = 0; i < backwards.length; i++) {
+    if (warmup + i < forwards.length) order.push(forwards[warmup + i])
+    order.push(backwards[i])
+  }
+  return order
+}
+
+function oneFOneBOrders(numGPUs: number, numMicrobatches: number): Op[][] {
+  return Array(numGPUs).fill(null).map((_, gpuIdx) => {
+    const forwards: Op[] = []
+    const backwards: Op[] = []
+    for (let mb = 1; mb <= numMicrobatches; mb++) {
+      forwards.push({ kind: 'F', microbatch: mb, chunk: 0 })
+      backwards.push({ kind: 'B', microbatch: mb, chunk: 0 })
+    }
+    return oneForwardOneBackward(forwards, backwards, numGPUs - gpuIdx - 1)
+  })
+}
+
+/**
+ * Whether interleaved 1F1B can run this many microbatches. They advance through the chunks in
+ * groups of one per GPU, and a last group with fewer leaves GPUs waiting on each other for good,
+ * so like Megatron the schedule takes only whole groups.
+ */
+export function canInterleave(numGPUs: number, numMicrobatches: number): boolean {
+  return numMicrobatches % numGPUs === 0
+}
+
+/**
+ * Megatron-style interleaving: microbatches advance in groups of numGPUs through each chunk in turn
+ */
+function interleavedOrders(numGPUs: number, numMicrobatches: number, numChunks: number): Op[][] {
+  const forwards: Op[] = []
+  const backwards: Op[] = []
+  for (let groupStart = 1; groupStart <= numMicrobatches; groupStart += numGPUs) {
+    const groupEnd = Math.min(groupStart + numGPUs - 1, numMicrobatches)
+    for (let i = 0; i < numChunks; i++) {
+      for (let mb = groupStart; mb <= groupEnd; mb++) {
+        forwards.push({ kind: 'F', microbatch: mb, chunk: i })
+        backwards.push({ kind: 'B', microbatch: mb, chunk: numChunks - 1 - i })
+      }
+    }
+  }
+
+  return Array(numGPUs).fill(null).map((_, gpuIdx) => {
+    const numWarmup = (numGPUs - gpuIdx - 1) * 2 + (numChunks - 1) * numGPUs
+    return oneForwardOneBackward(forwards, backwards, numWarmup)
+  })
+}
+
+/**
+ * Builds the grid for one of the standard pipeline schedules, sized to the schedule's makespan.
+ * Zero-bubble schedules split every backward into B and a weight-gradient (W) pass.
+ */
+export function generateSchedule(kind: ScheduleKind, options: ScheduleOptions): GridData {
+  const { numGPUs, numMicrobatches } = options
+  const numChunks = options.numChunks ?? 1
+  const durations = options.durations ?? DEFAULT_PASS_DURATIONS
+  const duration = (op: Op) => durations[PASS_TYPE_OF_KIND[op.kind]]
+  const latencies = options.latencies ?? DEFAULT_COMM_LATENCIES
+  if (numGPUs < 1 || numMicrobatches < 1) {
+    throw new Error('A schedule needs at least one GPU and one microbatch')
+  }
+
+  let placed: PlacedOp[]
+  switch (kind) {
+    case 'gpipe':
+      placed = placeInOrder(gpipeOrders(numGPUs, numMicrobatches), numGPUs, duration, latencies)
+      break
+    case '1f1b':
+      placed = placeInOrder(oneFOneBOrders(numGPUs, numMicrobatches), numGPUs, duration, latencies)
+      break
+    case 'interleaved-1f1b':
+      if (numChunks < 1) throw new Error('Interleaved 1F1B needs at least one chunk per GPU')
+      if (!canInterleave(numGPUs, numMicrobatches)) {
+        throw new Error(`Interleaved 1F1B needs the microbatches to be a multiple of the GPUs, but ${numMicrobatches} microbatches on ${numGPUs} GPUs leave ${numMicrobatches % numGPUs} over`)
+      }
+      placed = placeInOrder(interleavedOrders(numGPUs, numMicrobatches, numChunks), numGPUs * numChunks, duration, latencies)
+      break
+    case 'zb-h1':
+      placed = placeZeroBubble(numGPUs, numMicrobatches, duration, latencies, gpuIdx => numGPUs - gpuIdx)
+      break
+    case 'zb-h2':
+      placed = placeZeroBubble(numGPUs, numMicrobatches, duration, latencies, gpuIdx => 2 * (numGPUs - gpuIdx) - 1)
+      break
+  }
+
+  return placedToGrid(numGPUs, placed)
+}
+
+/**
+ * One entry of a GPU's op order: a pass of a microbatch on one of the GPU's chunks, and how long
+ * it runs. Optimizer steps keep the value of the cell they were entered with as their microbatch.
+ */
+export type OrderedOp = {
+  passType: PassType
+  microbatch: number
+  chunk: number
+  duration: number
+  // Timesteps the GPU stalls before it starts the op, e.g. a hiccup injected by a what-if
+  delay?: number
+}
+
+// Same spelling as copied cells, e.g. F3 or B3b
+const opToken = (op: Op) => `${op.kind}${op.microbatch}${op.chunk > 0 ? chunkLetter(op.chunk) : ''}`
+
+/**
+ * Reads each GPU's operations in the order they start. Chunks are resolved the way validation
+ * resolves them, so a second backward for a stage comes back as the W pass it stands for.
+ */
+export function extractOpOrder(gridData: GridData): OrderedOp[][] {
+  const numGPUs = gridData.length
+  const orders: Array<Array<OrderedOp & { timeIdx: number }>> = gridData.map(() => [])
+  resolveSchedule(gridData).forEach(op => {
+    orders[op.gpuIdx].push({
+      passType: op.role === 'weight' ? 'weight' : op.passType,
+      microbatch: op.microbatch,
+      chunk: Math.floor(op.stage / numGPUs),
+      duration: op.duration,
+      timeIdx: op.timeIdx,
+    })
+  })
+  getOperations(gridData).filter(op => op.passType === 'optimizer').forEach(op => {
+    orders[op.gpuIdx].push({ passType: 'optimizer', microbatch: op.value, chunk: op.chunk, duration: op.duration, timeIdx: op.timeIdx })
+  })
+  return orders.map(order => order.sort((a, b) => a.timeIdx - b.timeIdx).map(({ timeIdx: _, ...op }) => op))
+}
+
+/**
+ * Simulates the given op orders: every GPU runs its ops one after another, each starting as soon
+ * as the GPU is free and the op it depends on has finished and its output arrived. Returns the
+ * resulting grid, sized to the makespan.
+ *
+ * Throws when a GPU lists an op twice, when an op depends on one that no GPU lists, or when the
+ * orders deadlock by waiting on each other.
+ */
+export function placeOpOrder(orders: OrderedOp[][], latencies: CommLatencies = DEFAULT_COMM_LATENCIES): GridData {
+  const numGPUs = orders.length
+  const numStages = numGPUs * (maxOf(orders.flat().map(op => op.chunk), 0) + 1)
+  const tracker = new DependencyTracker(numGPUs, numStages, latencies)
+  const ops = orders.map(order => order.map(op => ({ ...op, kind: KIND_OF_PASS_TYPE[op.passType] })))
+
+  const listed = new Set<string>()
+  ops.forEach((order, gpuIdx) => order.forEach(op => {
+    const key = opKey(op.kind, op.microbatch, tracker.stageOf(op, gpuIdx))
+    if (listed.has(key)) throw new Error(`GPU ${gpuIdx} lists ${opToken(op)} twice`)
+    listed.add(key)
+  }))
+  ops.forEach((order, gpuIdx) => order.forEach(op => {
+    const dependency = tracker.dependencyOf(op, gpuIdx)
+    if (!dependency || listed.has(opKey(dependency.kind, op.microbatch, dependency.stage))) return
+    const needed = opToken({ kind: dependency.kind, microbatch: op.microbatch, chunk: Math.floor(dependency.stage / numGPUs) })
+    throw new Error(`${opToken(op)} on GPU ${gpuIdx} waits for ${needed} on GPU ${dependency.stage % numGPUs}, which no GPU lists`)
+  }))
+
+  const placed = placeInOrder(ops, numStages, op => op.duration, latencies, next =>
+    next.flatMap((op, gpuIdx) => op ? [`GPU ${gpuIdx} waits to run ${opToken(op)}`] : []).join(', ')
+  )
+  return placedToGrid(numGPUs, placed)
+}
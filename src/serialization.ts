@@ -0,0 +1,338 @@
+import {
+  type CommLatencies,
+  type GridData,
+  type PassType,
+  type PassDurations,
+  DEFAULT_COMM_LATENCIES,
+  DEFAULT_PASS_DURATIONS,
+  MAX_GPUS,
+  MAX_TIMESTEPS,
+  PASS_TYPES,
+  createEmptyGrid,
+  getOperations,
+  isCellChunk,
+  isCellMicrobatch
+} from './utils'
+import { type MemoryConfig } from './memory'
+import { type ParallelConfig, DEFAULT_PARALLEL_CONFIG, MAX_PARALLEL_DEGREE } from './parallelism'
+import { type Appearance, COLOR_SCHEME_LABELS, DEFAULT_APPEARANCE } from './colors'
+import { type Annotations, type CellNote, DEFAULT_ANNOTATIONS, MAX_ANNOTATION_LENGTH, notesInGrid } from './annotations'
+import { type ModelConfig, DEFAULT_MODEL_CONFIG, MODEL_LIMITS, PRECISION_LABELS } from './costModel'
+
+export const SCHEDULE_FORMAT_VERSION = 1
+
+/**
+ * Everything needed to reopen a schedule exactly as it was
+ */
+export type ScheduleState = {
+  numGPUs: number
+  numTimesteps: number
+  // Pass type new cells are entered with
+  passType: PassType
+  passDurations: PassDurations
+  memoryConfig: MemoryConfig
+  latencies: CommLatencies
+  parallel: ParallelConfig
+  appearance: Appearance
+  annotations: Annotations
+  // Transformer the schedule's durations and memory were estimated for
+  model: ModelConfig
+  gridData: GridData
+}
+
+// Operations are stored sparsely as [gpuIdx, timeIdx, value, passType, duration], followed by
+// the chunk for operations of interleaved schedules past the first chunk
+type SerializedOperation = [number, number, number, PassType, number] | [number, number, number, PassType, number, number]
+
+type ScheduleFile = {
+  version: number
+  numGPUs: number
+  numTimesteps: number
+  passType: PassType
+  passDurations: PassDurations
+  memoryConfig: MemoryConfig
+  // Optional so files saved before communication was modeled still load
+  latencies?: CommLatencies
+  parallel?: ParallelConfig
+  appearance?: Appearance
+  annotations?: Annotations
+  model?: ModelConfig
+  operations: SerializedOperation[]
+}
+
+export function serializeSchedule(state: ScheduleState): string {
+  const file: ScheduleFile = {
+    version: SCHEDULE_FORMAT_VERSION,
+    numGPUs: state.numGPUs,
+    numTimesteps: state.numTimesteps,
+    passType: state.passType,
+    passDurations: state.passDurations,
+    memoryConfig: state.memoryConfig,
+    latencies: state.latencies,
+    parallel: state.parallel,
+    appearance: state.appearance,
+    // Names and notes for GPUs or timesteps since removed from the grid are dropped
+    annotations: {
+      ...state.annotations,
+      stageNames: state.annotations.stageNames.slice(0, state.numGPUs),
+      notes: notesInGrid(state.annotations, state.numGPUs, state.numTimesteps),
+    },
+    model: state.model,
+    operations: getOperations(state.gridData).map((op): SerializedOperation => op.chunk > 0
+      ? [op.gpuIdx, op.timeIdx, op.value, op.passType, op.duration, op.chunk]
+      : [op.gpuIdx, op.timeIdx, op.value, op.passType, op.duration]),
+  }
+  return JSON.stringify(file)
+}
+
+const isInteger = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max
+
+const isByteCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0
+
+function isPassType(value: unknown): value is PassType {
+  return PASS_TYPES.includes(value as PassType)
+}
+
+/**
+ * Files saved before the W, recompute and optimizer passes existed only give forward and
+ * backward durations; the rest take their defaults
+ */
+function parsePassDurations(value: unknown): PassDurations {
+  const durations = value as Partial<PassDurations> | null
+  if (typeof durations !== 'object' || durations === null
+    || !isInteger(durations.forward, 1, MAX_TIMESTEPS) || !isInteger(durations.backward, 1, MAX_TIMESTEPS)
+    || !PASS_TYPES.every(type => durations[type] === undefined || isInteger(durations[type], 1, MAX_TIMESTEPS))) {
+    throw new Error('passDurations must give a positive integer duration for every pass type')
+  }
+  return Object.fromEntries(
+    PASS_TYPES.map(type => [type, durations[type] ?? DEFAULT_PASS_DURATIONS[type]])
+  ) as PassDurations
+}
+
+function parseMemoryConfig(value: unknown): MemoryConfig {
+  const config = value as Partial<MemoryConfig> | null
+  if (typeof config !== 'object' || config === null
+    || !Array.isArray(config.activationBytes) || config.activationBytes.length === 0
+    || !config.activationBytes.every(isByteCount)
+    || !isByteCount(config.weightBytes) || !isByteCount(config.optimizerBytes) || !isByteCount(config.capacityBytes)) {
+    throw new Error('memoryConfig must hold non-negative byte counts')
+  }
+  return {
+    activationBytes: config.activationBytes,
+    weightBytes: config.weightBytes,
+    optimizerBytes: config.optimizerBytes,
+    capacityBytes: config.capacityBytes,
+  }
+}
+
+function parseLatencies(value: unknown): CommLatencies {
+  if (value === undefined) return DEFAULT_COMM_LATENCIES
+  const latencies = value as Partial<CommLatencies> | null
+  if (typeof latencies !== 'object' || latencies === null
+    || !isInteger(latencies.activation, 0, MAX_TIMESTEPS) || !isInteger(latencies.gradient, 0, MAX_TIMESTEPS)) {
+    throw new Error('latencies must give whole, non-negative activation and gradient send times')
+  }
+  return { activation: latencies.activation, gradient: latencies.gradient }
+}
+
+function parseParallelConfig(value: unknown): ParallelConfig {
+  if (value === undefined) return DEFAULT_PARALLEL_CONFIG
+  const config = value as Partial<ParallelConfig> | null
+  if (typeof config !== 'object' || config === null
+    || !isInteger(config.dataParallel, 1, MAX_PARALLEL_DEGREE) || !isInteger(config.tensorParallel, 1, MAX_PARALLEL_DEGREE)
+    || !isInteger(config.allReduceTime, 0, MAX_TIMESTEPS) || !isInteger(config.optimizerTime, 0, MAX_TIMESTEPS)
+    || typeof config.overlapAllReduce !== 'boolean') {
+    throw new Error(`parallel must give parallel degrees from 1 to ${MAX_PARALLEL_DEGREE} and whole sync times`)
+  }
+  return {
+    dataParallel: config.dataParallel,
+    tensorParallel: config.tensorParallel,
+    allReduceTime: config.allReduceTime,
+    optimizerTime: config.optimizerTime,
+    overlapAllReduce: config.overlapAllReduce,
+  }
+}
+
+function parseAppearance(value: unknown): Appearance {
+  if (value === undefined) return DEFAULT_APPEARANCE
+  const appearance = value as Partial<Appearance> | null
+  if (typeof appearance !== 'object' || appearance === null
+    || !Object.keys(COLOR_SCHEME_LABELS).includes(appearance.colorScheme as string)
+    || (appearance.theme !== 'dark' && appearance.theme !== 'light')) {
+    throw new Error(`appearance must name a color scheme (${Object.keys(COLOR_SCHEME_LABELS).join(', ')}) and a dark or light theme`)
+  }
+  return { colorScheme: appearance.colorScheme!, theme: appearance.theme }
+}
+
+const isAnnotationText = (value: unknown): value is string =>
+  typeof value === 'string' && value.length <= MAX_ANNOTATION_LENGTH
+
+function parseAnnotations(value: unknown, numGPUs: number, numTimesteps: number): Annotations {
+  if (value === undefined) return DEFAULT_ANNOTATIONS
+  const annotations = value as Partial<Annotations> | null
+  if (typeof annotations !== 'object' || annotations === null
+    || !isAnnotationText(annotations.title)
+    || !Array.isArray(annotations.stageNames) || annotations.stageNames.length > numGPUs
+    || !annotations.stageNames.every(isAnnotationText)
+    || !Array.isArray(annotations.notes)
+    || typeof annotations.showPhases !== 'boolean' || typeof annotations.showLegend !== 'boolean') {
+    throw new Error(`annotations must give a title, at most one stage name per GPU, notes and whether to show phases and a legend, with text up to ${MAX_ANNOTATION_LENGTH} characters`)
+  }
+  const notes = annotations.notes.map((note: Partial<CellNote> | null, idx) => {
+    if (typeof note !== 'object' || note === null || !isAnnotationText(note.text)
+      || !isInteger(note.gpuIdx, 0, numGPUs - 1) || !isInteger(note.timeIdx, 0, numTimesteps - 1)) {
+      throw new Error(`Note ${idx} must be text up to ${MAX_ANNOTATION_LENGTH} characters on a cell of the grid`)
+    }
+    return { gpuIdx: note.gpuIdx, timeIdx: note.timeIdx, text: note.text }
+  })
+  return {
+    title: annotations.title,
+    stageNames: annotations.stageNames,
+    notes,
+    showPhases: annotations.showPhases,
+    showLegend: annotations.showLegend,
+  }
+}
+
+function parseModelConfig(value: unknown): ModelConfig {
+  if (value === undefined) return DEFAULT_MODEL_CONFIG
+  const model = value as Partial<ModelConfig> | null
+  if (typeof model !== 'object' || model === null
+    || !isInteger(model.numLayers, 1, MODEL_LIMITS.numLayers) || !isInteger(model.hiddenSize, 1, MODEL_LIMITS.hiddenSize)
+    || !isInteger(model.seqLength, 1, MODEL_LIMITS.seqLength) || !isInteger(model.microbatchSize, 1, MODEL_LIMITS.microbatchSize)
+    || !isInteger(model.vocabSize, 1, MODEL_LIMITS.vocabSize)
+    || !Object.keys(PRECISION_LABELS).includes(model.precision as string)
+    || !Array.isArray(model.layersPerStage) || model.layersPerStage.length > MAX_GPUS
+    || !model.layersPerStage.every(layers => isInteger(layers, 0, MODEL_LIMITS.numLayers))
+    || typeof model.peakTFLOPs !== 'number' || !(model.peakTFLOPs > 0 && model.peakTFLOPs <= MODEL_LIMITS.peakTFLOPs)
+    || typeof model.efficiency !== 'number' || !(model.efficiency > 0 && model.efficiency <= 1)
+    || !isInteger(model.forwardTimesteps, 1, MODEL_LIMITS.forwardTimesteps)) {
+    throw new Error(`model must give whole, positive layer, size and vocabulary counts, a precision (${Object.keys(PRECISION_LABELS).join(', ')}), a layer split, a positive peak TFLOP/s, an efficiency up to 1 and forward timesteps`)
+  }
+  return {
+    numLayers: model.numLayers,
+    hiddenSize: model.hiddenSize,
+    seqLength: model.seqLength,
+    microbatchSize: model.microbatchSize,
+    vocabSize: model.vocabSize,
+    precision: model.precision!,
+    layersPerStage: model.layersPerStage,
+    peakTFLOPs: model.peakTFLOPs,
+    efficiency: model.efficiency,
+    forwardTimesteps: model.forwardTimesteps,
+  }
+}
+
+/**
+ * Parses a schedule file, throwing an Error that says what is wrong if it is malformed or out of range
+ */
+export function parseSchedule(text: string): ScheduleState {
+  let file: Partial<ScheduleFile>
+  try {
+    file = JSON.parse(text)
+  } catch {
+    throw new Error('Schedule file is not valid JSON')
+  }
+  if (typeof file !== 'object' || file === null) {
+    throw new Error('Schedule file must contain a JSON object')
+  }
+  if (file.version !== SCHEDULE_FORMAT_VERSION) {
+    throw new Error(`Unsupported schedule format version ${JSON.stringify(file.version)}, expected ${SCHEDULE_FORMAT_VERSION}`)
+  }
+
+  const { numGPUs, numTimesteps } = file
+  if (!isInteger(numGPUs, 1, MAX_GPUS)) {
+    throw new Error(`numGPUs must be an integer from 1 to ${MAX_GPUS}`)
+  }
+  if (!isInteger(numTimesteps, 1, MAX_TIMESTEPS)) {
+    throw new Error(`numTimesteps must be an integer from 1 to ${MAX_TIMESTEPS}`)
+  }
+  if (!isPassType(file.passType)) {
+    throw new Error(`passType must be one of ${PASS_TYPES.join(', ')}`)
+  }
+  const passDurations = parsePassDurations(file.passDurations)
+  const memoryConfig = parseMemoryConfig(file.memoryConfig)
+  const latencies = parseLatencies(file.latencies)
+  const parallel = parseParallelConfig(file.parallel)
+  const appearance = parseAppearance(file.appearance)
+  const annotations = parseAnnotations(file.annotations, numGPUs, numTimesteps)
+  const model = parseModelConfig(file.model)
+  if (!Array.isArray(file.operations)) {
+    throw new Error('operations must be an array')
+  }
+
+  const gridData = createEmptyGrid(numGPUs, numTimesteps)
+  file.operations.forEach((operation: unknown, idx) => {
+    if (!Array.isArray(operation) || (operation.length !== 5 && operation.length !== 6)) {
+      throw new Error(`Operation ${idx} must be [gpuIdx, timeIdx, value, passType, duration] with an optional chunk`)
+    }
+    const [gpuIdx, timeIdx, value, passType, duration, chunk = 0] = operation
+    if (!isInteger(gpuIdx, 0, numGPUs - 1)) {
+      throw new Error(`Operation ${idx} is on GPU ${gpuIdx}, outside the ${numGPUs} GPUs`)
+    }
+    if (!isInteger(timeIdx, 0, numTimesteps - 1) || !isInteger(duration, 1, numTimesteps - timeIdx)) {
+      throw new Error(`Operation ${idx} does not fit in the ${numTimesteps} timesteps`)
+    }
+    if (!isCellMicrobatch(value)) {
+      throw new Error(`Operation ${idx} has microbatch ${JSON.stringify(value)}, which is not a non-negative integer`)
+    }
+    if (!isPassType(passType)) {
+      throw new Error(`Operation ${idx} has unknown pass type ${JSON.stringify(passType)}`)
+    }
+    if (!isCellChunk(chunk)) {
+      throw new Error(`Operation ${idx} has invalid chunk ${JSON.stringify(chunk)}`)
+    }
+    for (let t = timeIdx; t < timeIdx + duration; t++) {
+      if (gridData[gpuIdx][t].value !== null) {
+        throw new Error(`Operation ${idx} overlaps another operation on GPU ${gpuIdx} at t${t}`)
+      }
+      gridData[gpuIdx][t] = { value, passType, ...(chunk > 0 && { chunk }), ...(t > timeIdx && { continuation: true }) }
+    }
+  })
+
+  return {
+    numGPUs,
+    numTimesteps,
+    passType: file.passType,
+    passDurations,
+    memoryConfig,
+    latencies,
+    parallel,
+    appearance,
+    annotations,
+    model,
+    gridData,
+  }
+}
+
+const HASH_PREFIX = '#schedule='
+
+/**
+ * Encodes the state for the URL hash as base64url JSON
+ */
+export function encodeScheduleHash(state: ScheduleState): string {
+  let binary = ''
+  new TextEncoder().encode(serializeSchedule(state)).forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  const base64 = btoa(binary)
+  return HASH_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/**
+ * Decodes a URL hash written by encodeScheduleHash. Returns null when the hash holds no schedule.
+ */
+export function decodeScheduleHash(hash: string): ScheduleState | null {
+  if (!hash.startsWith(HASH_PREFIX)) return null
+  let text: string
+  try {
+    const base64 = hash.slice(HASH_PREFIX.length).replace(/-/g, '+').replace(/_/g, '/')
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0))
+    text = new TextDecoder().decode(bytes)
+  } catch {
+    throw new Error('The schedule in the link is corrupted')
+  }
+  return parseSchedule(text)
+}
@@ -0,0 +1,175 @@
+import { type GridData, type PassType, MAX_GPUS, MAX_TIMESTEPS, createEmptyGrid, minOf } from './utils'
+
+// Which event field identifies the GPU a span ran on
+export type TraceGPUKey = 'pid' | 'tid' | 'rank'
+
+export type TraceImportOptions = {
+  gpuKey: TraceGPUKey
+  // Regular expressions matched against event names; the first capture group is the microbatch
+  forwardPattern: string
+  backwardPattern: string
+  // Microseconds per timestep; the shortest matched span is used when omitted
+  timestepUs?: number
+}
+
+export const DEFAULT_TRACE_OPTIONS: TraceImportOptions = {
+  gpuKey: 'pid',
+  forwardPattern: 'forward\\D*(\\d+)',
+  backwardPattern: 'backward\\D*(\\d+)',
+}
+
+export type TraceImport = {
+  gridData: GridData
+  numGPUs: number
+  numTimesteps: number
+  timestepUs: number
+  warnings: string[]
+}
+
+// The subset of the Chrome trace-event format this importer reads
+type TraceEvent = {
+  name?: string
+  ph?: string
+  ts?: number
+  dur?: number
+  pid?: number | string
+  tid?: number | string
+  args?: { rank?: number | string }
+}
+
+type Span = {
+  gpuKey: string
+  start: number
+  duration: number
+  microbatch: number
+  passType: PassType
+}
+
+function compilePattern(pattern: string, label: string): RegExp {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch (error) {
+    throw new Error(`Invalid ${label} pattern: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Pairs up complete ('X') and begin/end ('B'/'E') events into timed spans
+ */
+function collectTimedEvents(events: TraceEvent[]): Array<TraceEvent & { ts: number; dur: number }> {
+  const timed: Array<TraceEvent & { ts: number; dur: number }> = []
+  const open = new Map<string, TraceEvent[]>()
+
+  events.forEach(event => {
+    if (typeof event.ts !== 'number') return
+    if (event.ph === 'X' && typeof event.dur === 'number') {
+      timed.push({ ...event, ts: event.ts, dur: event.dur })
+    } else if (event.ph === 'B') {
+      const key = `${event.pid}-${event.tid}`
+      if (!open.has(key)) open.set(key, [])
+      open.get(key)!.push(event)
+    } else if (event.ph === 'E') {
+      const begin = open.get(`${event.pid}-${event.tid}`)?.pop()
+      if (begin && typeof begin.ts === 'number') {
+        timed.push({ ...begin, ts: begin.ts, dur: event.ts - begin.ts })
+      }
+    }
+  })
+
+  return timed
+}
+
+/**
+ * Converts a Chrome trace (as written by torch.profiler or Megatron/DeepSpeed timers) into a grid.
+ *
+ * Spans whose names match the forward or backward pattern become operations. GPUs are numbered
+ * in sorted order of the chosen key, times are quantized to whole timesteps from the first span,
+ * and microbatches are shifted to start at 1 when the trace counts from 0. Spans that land on an
+ * occupied cell move to the next free timestep and are reported as warnings.
+ */
+export function importTrace(trace: unknown, options: TraceImportOptions): TraceImport {
+  const events = Array.isArray(trace)
+    ? trace
+    : (trace as { traceEvents?: unknown } | null)?.traceEvents
+  if (!Array.isArray(events)) {
+    throw new Error('Not a Chrome trace: expected an array of events or an object with traceEvents')
+  }
+
+  const patterns: Array<[PassType, RegExp]> = [
+    ['forward', compilePattern(options.forwardPattern, 'forward')],
+    ['backward', compilePattern(options.backwardPattern, 'backward')],
+  ]
+
+  const warnings: string[] = []
+  const spans: Span[] = []
+  collectTimedEvents(events as TraceEvent[]).forEach(event => {
+    if (typeof event.name !== 'string') return
+    for (const [passType, pattern] of patterns) {
+      const match = pattern.exec(event.name)
+      if (!match) continue
+      const microbatch = Number(match[1])
+      const gpuKey = options.gpuKey === 'rank' ? event.args?.rank : event[options.gpuKey]
+      if (match[1] === undefined || isNaN(microbatch)) {
+        warnings.push(`Skipped "${event.name}": the ${passType} pattern captured no microbatch number`)
+      } else if (gpuKey === undefined) {
+        warnings.push(`Skipped "${event.name}": it has no ${options.gpuKey}`)
+      } else {
+        spans.push({ gpuKey: String(gpuKey), start: event.ts, duration: event.dur, microbatch, passType })
+      }
+      break
+    }
+  })
+  if (spans.length === 0) {
+    throw new Error('No trace events matched the forward or backward pattern')
+  }
+
+  const gpuKeys = Array.from(new Set(spans.map(span => span.gpuKey)))
+    .sort((a, b) => isNaN(Number(a)) || isNaN(Number(b)) ? a.localeCompare(b) : Number(a) - Number(b))
+  if (gpuKeys.length > MAX_GPUS) {
+    throw new Error(`The trace has ${gpuKeys.length} GPUs, more than the ${MAX_GPUS} the grid holds`)
+  }
+
+  const timestepUs = options.timestepUs ?? minOf(spans.map(span => span.duration).filter(duration => duration > 0))
+  if (!(timestepUs > 0) || !Number.isFinite(timestepUs)) {
+    throw new Error('The timestep must be a positive number of microseconds')
+  }
+
+  const origin = minOf(spans.map(span => span.start))
+  const batchOffset = minOf(spans.map(span => span.microbatch)) === 0 ? 1 : 0
+  const placed = spans
+    .map(span => ({
+      ...span,
+      gpuIdx: gpuKeys.indexOf(span.gpuKey),
+      timeIdx: Math.round((span.start - origin) / timestepUs),
+      steps: Math.max(1, Math.round(span.duration / timestepUs)),
+    }))
+    .sort((a, b) => a.gpuIdx - b.gpuIdx || a.timeIdx - b.timeIdx)
+
+  // Resolve collisions before sizing the grid
+  const nextFree = gpuKeys.map(() => 0)
+  placed.forEach(span => {
+    if (span.timeIdx < nextFree[span.gpuIdx]) {
+      warnings.push(`Moved the ${span.passType} of microbatch ${span.microbatch + batchOffset} on GPU ${span.gpuIdx} from t${span.timeIdx} to t${nextFree[span.gpuIdx]} to avoid an overlap`)
+      span.timeIdx = nextFree[span.gpuIdx]
+    }
+    nextFree[span.gpuIdx] = span.timeIdx + span.steps
+  })
+
+  const numTimesteps = Math.max(...nextFree)
+  if (numTimesteps > MAX_TIMESTEPS) {
+    throw new Error(`The trace spans ${numTimesteps} timesteps, more than the ${MAX_TIMESTEPS} the grid holds; use a longer timestep`)
+  }
+
+  const gridData = createEmptyGrid(gpuKeys.length, numTimesteps)
+  placed.forEach(span => {
+    for (let t = 0; t < span.steps; t++) {
+      gridData[span.gpuIdx][span.timeIdx + t] = {
+        value: span.microbatch + batchOffset,
+        passType: span.passType,
+        ...(t > 0 && { continuation: true })
+      }
+    }
+  })
+
+  return { gridData, numGPUs: gpuKeys.length, numTimesteps, timestepUs, warnings }
+}
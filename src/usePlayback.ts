@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react'
+
+// Timesteps advanced per second
+export const PLAYBACK_SPEEDS = [0.5, 1, 2, 4, 8]
+
+/**
+ * Drives a time cursor across the schedule. The timestep is null while playback is off, so
+ * the whole schedule shows as already run.
+ */
+export function usePlayback(numTimesteps: number) {
+  const [timestep, setTimestep] = useState<number | null>(null)
+  const [isPlaying, setIsPlaying] = useState(false)
+  const [speed, setSpeed] = useState(2)
+  const lastTimestep = numTimesteps - 1
+  // The grid can shrink under the cursor
+  const current = timestep === null ? null : Math.min(timestep, lastTimestep)
+
+  useEffect(() => {
+    if (!isPlaying) return
+    const interval = window.setInterval(() => {
+      setTimestep(t => Math.min((t ?? -1) + 1, lastTimestep))
+    }, 1000 / speed)
+    return () => window.clearInterval(interval)
+  }, [isPlaying, speed, lastTimestep])
+
+  useEffect(() => {
+    if (isPlaying && current === lastTimestep) setIsPlaying(false)
+  }, [isPlaying, current, lastTimestep])
+
+  const clamp = useCallback((t: number) => Math.max(0, Math.min(lastTimestep, t)), [lastTimestep])
+
+  const play = () => {
+    if (current === null || current === lastTimestep) setTimestep(0)
+    setIsPlaying(true)
+  }
+
+  const pause = () => setIsPlaying(false)
+
+  const step = (delta: number) => {
+    setIsPlaying(false)
+    setTimestep(clamp((current ?? (delta > 0 ? -1 : numTimesteps)) + delta))
+  }
+
+  const seek = (t: number) => setTimestep(clamp(t))
+
+  const stop = () => {
+    setIsPlaying(false)
+    setTimestep(null)
+  }
+
+  return { timestep: current, isPlaying, speed, setSpeed, play, pause, step, seek, stop }
+}
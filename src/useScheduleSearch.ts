@@ -0,0 +1,46 @@
+import { useState, useEffect, useCallback, useRef } from 'react'
+import { type SearchMessage, type SearchOptions, type SearchProgress } from './scheduleSearch'
+
+/**
+ * Runs schedule searches in a web worker. `progress` is null while no search runs; `onMessage`
+ * receives the outcome once the worker is done, or an error if the worker itself fails.
+ */
+export function useScheduleSearch(onMessage: (message: Exclude<SearchMessage, { type: 'progress' }>) => void) {
+  const workerRef = useRef<Worker | null>(null)
+  const [progress, setProgress] = useState<SearchProgress | null>(null)
+  // The latest callback, so a search started before a re-render reports to current state
+  const onMessageRef = useRef(onMessage)
+  onMessageRef.current = onMessage
+
+  const cancel = useCallback(() => {
+    workerRef.current?.terminate()
+    workerRef.current = null
+    setProgress(null)
+  }, [])
+
+  useEffect(() => cancel, [cancel])
+
+  const start = (options: SearchOptions) => {
+    cancel()
+    const worker = new Worker(new URL('./scheduleSearch.worker.ts', import.meta.url), { type: 'module' })
+    workerRef.current = worker
+    worker.onmessage = (event: MessageEvent<SearchMessage>) => {
+      const message = event.data
+      if (message.type === 'progress') {
+        setProgress(message.progress)
+        return
+      }
+      cancel()
+      onMessageRef.current(message)
+    }
+    // A worker that fails to load or dies outside its own error handling sends no outcome
+    worker.onerror = (event: ErrorEvent) => {
+      cancel()
+      onMessageRef.current({ type: 'error', message: event.message || 'The schedule search stopped unexpectedly' })
+    }
+    setProgress({ explored: 0, nodeBudget: options.nodeBudget, best: null })
+    worker.postMessage(options)
+  }
+
+  return { progress, isSearching: progress !== null, start, cancel }
+}
@@ -0,0 +1,43 @@
+import { useState, useEffect } from 'react'
+
+export type ScrollViewport = {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+/**
+ * Tracks which part of a scrolling element's content is in view, so only that part needs to be
+ * drawn. Scroll offsets are rounded down to multiples of `step` pixels, so scrolling re-renders
+ * once per step rather than on every scroll event; callers draw a step's worth extra to cover it.
+ * Attach the returned ref to the scrolling element.
+ */
+export function useScrollViewport(step: number) {
+  const [element, setElement] = useState<HTMLElement | null>(null)
+  const [viewport, setViewport] = useState<ScrollViewport>({ left: 0, top: 0, width: 0, height: 0 })
+
+  useEffect(() => {
+    if (!element) return
+    const update = () => {
+      const next = {
+        left: Math.floor(element.scrollLeft / step) * step,
+        top: Math.floor(element.scrollTop / step) * step,
+        width: element.clientWidth,
+        height: element.clientHeight,
+      }
+      setViewport(current => current.left === next.left && current.top === next.top
+        && current.width === next.width && current.height === next.height ? current : next)
+    }
+    update()
+    element.addEventListener('scroll', update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(element)
+    return () => {
+      element.removeEventListener('scroll', update)
+      observer.disconnect()
+    }
+  }, [element, step])
+
+  return { element, viewport, ref: setElement }
+}
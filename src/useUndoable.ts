@@ -0,0 +1,51 @@
+import { useState, useCallback } from 'react'
+
+// Oldest states are dropped beyond this many undo steps
+const MAX_HISTORY = 200
+
+type History<T> = {
+  past: T[]
+  present: T
+  future: T[]
+}
+
+/**
+ * Like useState, but every set is recorded so it can be undone and redone
+ */
+export function useUndoable<T>(initial: T | (() => T)) {
+  const [history, setHistory] = useState<History<T>>(() => ({
+    past: [],
+    present: typeof initial === 'function' ? (initial as () => T)() : initial,
+    future: []
+  }))
+
+  const set = useCallback((value: T) => {
+    setHistory(history => value === history.present
+      ? history
+      : { past: [...history.past, history.present].slice(-MAX_HISTORY), present: value, future: [] }
+    )
+  }, [])
+
+  const undo = useCallback(() => {
+    setHistory(({ past, present, future }) => past.length === 0
+      ? { past, present, future }
+      : { past: past.slice(0, -1), present: past[past.length - 1], future: [present, ...future] }
+    )
+  }, [])
+
+  const redo = useCallback(() => {
+    setHistory(({ past, present, future }) => future.length === 0
+      ? { past, present, future }
+      : { past: [...past, present], present: future[0], future: future.slice(1) }
+    )
+  }, [])
+
+  return {
+    value: history.present,
+    set,
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0
+  }
+}
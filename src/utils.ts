@@ -1,12 +1,96 @@
-export type PassType = 'forward' | 'backward'
+// Backward computes input gradients (B) and, unless a weight pass (W) follows, weight gradients
+// too. Recompute rebuilds checkpointed activations before a backward; the optimizer step ends
+// an iteration on a GPU and belongs to no microbatch.
+export type PassType = 'forward' | 'backward' | 'weight' | 'recompute' | 'optimizer'
+
+export const PASS_TYPES: PassType[] = ['forward', 'backward', 'weight', 'recompute', 'optimizer']
+
+export const PASS_TYPE_LABELS: Record<PassType, string> = {
+  forward: 'Forward',
+  backward: 'Backward (B)',
+  weight: 'Weight grad (W)',
+  recompute: 'Recompute',
+  optimizer: 'Optimizer step',
+}
 
 export type CellData = {
   value: number | null
   passType: PassType | null
+  // Set on the cells an operation spills into after the timestep it starts in
+  continuation?: boolean
+  // Model chunk (virtual stage) of interleaved schedules, 0 when omitted
+  chunk?: number
 }
 
 export type GridData = CellData[][]
 
+// Largest grid the editor allows
+export const MAX_GPUS = 128
+export const MAX_TIMESTEPS = 10000
+export const MAX_CHUNKS = 8
+
+/**
+ * Whether a cell can hold this microbatch: a whole, non-negative number, which is all schedule
+ * files and links store. Every way of writing cells checks it, so edits always save and reload.
+ */
+export function isCellMicrobatch(value: unknown): value is number {
+  return typeof value === 'number' && Number.isSafeInteger(value) && value >= 0
+}
+
+/**
+ * Whether a cell can hold this chunk, one of the MAX_CHUNKS a schedule file stores
+ */
+export function isCellChunk(chunk: unknown): chunk is number {
+  return typeof chunk === 'number' && Number.isInteger(chunk) && chunk >= 0 && chunk < MAX_CHUNKS
+}
+
+/**
+ * Default number of timesteps a new operation of each pass type occupies
+ */
+export type PassDurations = Record<PassType, number>
+
+export const DEFAULT_PASS_DURATIONS: PassDurations = {
+  forward: 1,
+  backward: 1,
+  weight: 1,
+  recompute: 1,
+  optimizer: 1
+}
+
+/**
+ * Timesteps a send between stages on different GPUs takes to arrive
+ */
+export type CommLatencies = {
+  // Activations a forward sends to the next stage
+  activation: number
+  // Gradients a backward sends to the previous stage
+  gradient: number
+}
+
+export const DEFAULT_COMM_LATENCIES: CommLatencies = {
+  activation: 0,
+  gradient: 0
+}
+
+/**
+ * Latency of the send that follows a pass of the given type
+ */
+export function transferLatency(latencies: CommLatencies, passType: PassType): number {
+  return passType === 'forward' ? latencies.activation : latencies.gradient
+}
+
+/**
+ * One operation in the grid, spanning `duration` timesteps from `timeIdx`
+ */
+export type Operation = {
+  gpuIdx: number
+  timeIdx: number
+  duration: number
+  value: number
+  passType: PassType
+  chunk: number
+}
+
 /**
  * Creates an empty grid with the specified dimensions
  */
@@ -76,28 +160,124 @@ export function createDefaultGrid(numGPUs: number, numTimesteps: number): GridDa
 }
 
 /**
- * Calculates the number of blank (empty) cells in the grid
+ * Largest of the values, or `fallback` when there are none. Unlike Math.max(...values) it takes
+ * any number of values; spreading the operations of a large grid overflows the call stack.
  */
-export function calculateBlankCount(gridData: GridData): number {
-  return gridData.reduce((count, row) => 
-    count + row.filter(cell => cell.value === null).length, 0
-  )
+export function maxOf(values: Iterable<number>, fallback = -Infinity): number {
+  let max = -Infinity
+  let isEmpty = true
+  for (const value of values) {
+    if (value > max) max = value
+    isEmpty = false
+  }
+  return isEmpty ? fallback : max
 }
 
 /**
- * Generates a color based on batch number and pass type
+ * Smallest of the values, or `fallback` when there are none, for as many values as maxOf takes
  */
-export function getColorForBatch(batchNumber: number, passType: PassType | null): string {
-  if (batchNumber === null) return 'transparent';
-  
-  // Create a rainbow-ordered hue starting from Green (120)
-  // Using a 50-degree step to hit Green (120), Blue (approx 220), Indigo (270), Violet (320)
-  const hue = (120 + ((batchNumber - 1) * 50)) % 360;
-  
-  // Forward pass is darker, backward pass is lighter
-  const saturation = 70;
-  const lightness = passType === 'forward' ? 40 : 60;
-  
-  return `hsl(${hue}, ${saturation}%, ${lightness}%)`;
+export function minOf(values: Iterable<number>, fallback = Infinity): number {
+  let min = Infinity
+  let isEmpty = true
+  for (const value of values) {
+    if (value < min) min = value
+    isEmpty = false
+  }
+  return isEmpty ? fallback : min
 }
 
+/**
+ * Collects the operations in the grid, merging each start cell with the continuation cells after it
+ */
+export function getOperations(gridData: GridData): Operation[] {
+  const operations: Operation[] = []
+  gridData.forEach((row, gpuIdx) => {
+    row.forEach((cell, timeIdx) => {
+      if (cell.value === null || !cell.passType) return
+      const previous = operations[operations.length - 1]
+      if (cell.continuation && previous && previous.gpuIdx === gpuIdx && previous.timeIdx + previous.duration === timeIdx) {
+        previous.duration++
+        return
+      }
+      operations.push({ gpuIdx, timeIdx, duration: 1, value: cell.value, passType: cell.passType, chunk: cell.chunk ?? 0 })
+    })
+  })
+  return operations
+}
+
+/**
+ * Number of timesteps the operation starting at the given cell spans
+ */
+export function getOperationDuration(row: CellData[], timeIdx: number): number {
+  let end = timeIdx + 1
+  while (end < row.length && row[end].continuation) end++
+  return end - timeIdx
+}
+
+/**
+ * Returns a copy of the grid with an operation written at the given cell, or the cell cleared
+ * when value is null. Whatever operation covered the cell is cut off there, and the new one
+ * stops early at the next occupied cell or the end of the row. Throws if a cell can't hold the
+ * microbatch or chunk.
+ */
+export function setOperation(
+  gridData: GridData,
+  gpuIdx: number,
+  timeIdx: number,
+  value: number | null,
+  passType: PassType,
+  duration: number,
+  chunk = 0
+): GridData {
+  if (value !== null && (!isCellMicrobatch(value) || !isCellChunk(chunk))) {
+    throw new Error(`A cell can't hold microbatch ${value} on chunk ${chunk}`)
+  }
+  const row = gridData[gpuIdx].slice()
+
+  if (row[timeIdx].value !== null) {
+    const end = timeIdx + getOperationDuration(row, timeIdx)
+    for (let t = timeIdx; t < end; t++) {
+      row[t] = { value: null, passType: null }
+    }
+  }
+
+  if (value !== null) {
+    row[timeIdx] = { value, passType, ...(chunk > 0 && { chunk }) }
+    for (let t = timeIdx + 1; t < Math.min(timeIdx + duration, row.length) && row[t].value === null; t++) {
+      row[t] = { ...row[timeIdx], continuation: true }
+    }
+  }
+
+  return gridData.map((existingRow, r) => r === gpuIdx ? row : existingRow)
+}
+
+/**
+ * Letter that names a model chunk in labels: a for chunk 0, b for chunk 1, ...
+ */
+export function chunkLetter(chunk: number): string {
+  return String.fromCharCode(97 + chunk)
+}
+
+/**
+ * Whether any cell names a chunk other than the first, i.e. the schedule is interleaved
+ */
+export function gridUsesChunks(gridData: GridData): boolean {
+  return gridData.some(row => row.some(cell => (cell.chunk ?? 0) > 0))
+}
+
+/**
+ * Label of an operation's cell: its microbatch, followed by its chunk letter in interleaved
+ * schedules (e.g. 3a, 3b)
+ */
+export function formatCellLabel(value: number, chunk: number | undefined, showChunk: boolean): string {
+  return showChunk ? `${value}${chunkLetter(chunk ?? 0)}` : String(value)
+}
+
+/**
+ * Calculates the number of blank (empty) cells in the grid
+ */
+export function calculateBlankCount(gridData: GridData): number {
+  return gridData.reduce((count, row) => 
+    count + row.filter(cell => cell.value === null).length, 0
+  )
+}
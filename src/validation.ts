@@ -0,0 +1,332 @@
+import {
+  type CommLatencies,
+  type GridData,
+  type Operation,
+  type PassType,
+  DEFAULT_COMM_LATENCIES,
+  getOperations,
+  maxOf,
+  minOf,
+  transferLatency
+} from './utils'
+
+/**
+ * An operation in the grid resolved to its place in the pipeline
+ */
+export type ScheduleOp = {
+  gpuIdx: number
+  timeIdx: number
+  duration: number
+  microbatch: number
+  passType: PassType
+  chunk: number
+  // Virtual stage: chunk c on GPU g is stage c * numGPUs + g
+  stage: number
+  // 'weight' marks the W half of a split backward, whichever way it was entered, and 'duplicate'
+  // a pass this GPU already ran
+  role: 'pass' | 'weight' | 'duplicate'
+  // The op that has to finish before this one can start, if any
+  dependency: ScheduleOp | null
+}
+
+export type ViolationKind =
+  | 'duplicate-pass'
+  | 'backward-before-forward'
+  | 'upstream-not-finished'
+  | 'transfer-not-arrived'
+  | 'concurrent-microbatch'
+  | 'weight-before-backward'
+  | 'recompute-out-of-order'
+  | 'optimizer-too-early'
+
+export type Violation = {
+  kind: ViolationKind
+  gpuIdx: number
+  timeIdx: number
+  microbatch: number
+  message: string
+}
+
+// Grids are never changed once built, so each is resolved once however many views ask for it
+const resolvedSchedules = new WeakMap<GridData, ScheduleOp[]>()
+
+/**
+ * Resolves every operation to a pipeline stage and links it to the op it depends on.
+ *
+ * In interleaved schedules cells name their chunk. Otherwise the k-th forward of a microbatch
+ * on a GPU belongs to chunk k, and backward, W and recompute passes visit the chunks in reverse.
+ * A W pass continues the backward of its stage, as does a second backward for the same stage
+ * (how split backwards were entered before W had its own pass type). A recompute rebuilds the
+ * forward's activations. Any other repeat of a pass on a stage is a duplicate. Optimizer steps
+ * belong to no microbatch and are left out.
+ */
+export function resolveSchedule(gridData: GridData): ScheduleOp[] {
+  const cached = resolvedSchedules.get(gridData)
+  if (cached) return cached
+  const numGPUs = gridData.length
+  const operations = getOperations(gridData)
+  const hasExplicitChunks = operations.some(op => op.chunk > 0)
+  const gridChunks = hasExplicitChunks ? maxOf(operations.map(op => op.chunk)) + 1 : 1
+  const cellsByBatch = new Map<number, Array<{ gpuIdx: number; timeIdx: number; duration: number; passType: PassType; chunk: number }>>()
+
+  operations.filter(op => op.passType !== 'optimizer').forEach(({ value, ...operation }) => {
+    if (!cellsByBatch.has(value)) cellsByBatch.set(value, [])
+    cellsByBatch.get(value)!.push(operation)
+  })
+
+  const ops: ScheduleOp[] = []
+  cellsByBatch.forEach((cells, microbatch) => {
+    cells.sort((a, b) => a.timeIdx - b.timeIdx)
+
+    const cellsByGPU = gridData.map(() => new Map<PassType, typeof cells>())
+    cells.forEach(cell => {
+      const byPass = cellsByGPU[cell.gpuIdx]
+      if (!byPass.has(cell.passType)) byPass.set(cell.passType, [])
+      byPass.get(cell.passType)!.push(cell)
+    })
+    const cellsOf = (gpuIdx: number, passType: PassType) => cellsByGPU[gpuIdx].get(passType) ?? []
+
+    // GPUs the user hasn't filled in yet don't count towards an inferred chunk count
+    const forwardCounts = cellsByGPU.map(byPass => byPass.get('forward')?.length ?? 0).filter(count => count > 0)
+    const numChunks = hasExplicitChunks
+      ? gridChunks
+      : minOf(forwardCounts, 1)
+    const lastStage = numChunks * numGPUs - 1
+
+    const byStage = {
+      forward: new Map<number, ScheduleOp>(),
+      backward: new Map<number, ScheduleOp>(),
+      weight: new Map<number, ScheduleOp>(),
+      recompute: new Map<number, ScheduleOp>(),
+    }
+    const batchOps: ScheduleOp[] = []
+    for (let gpuIdx = 0; gpuIdx < numGPUs; gpuIdx++) {
+      const forwards = cellsOf(gpuIdx, 'forward')
+      const backwards = cellsOf(gpuIdx, 'backward')
+      const weights = cellsOf(gpuIdx, 'weight')
+      const recomputes = cellsOf(gpuIdx, 'recompute')
+      const reverseStage = (cell: { chunk: number }, k: number) =>
+        (hasExplicitChunks ? cell.chunk : numChunks - 1 - (k % numChunks)) * numGPUs + gpuIdx
+
+      forwards.forEach((cell, k) => {
+        const chunk = hasExplicitChunks ? cell.chunk : Math.min(k, numChunks - 1)
+        const op: ScheduleOp = { ...cell, microbatch, stage: chunk * numGPUs + gpuIdx, role: 'pass', dependency: null }
+        if (byStage.forward.has(op.stage)) {
+          op.role = 'duplicate'
+        } else {
+          byStage.forward.set(op.stage, op)
+        }
+        batchOps.push(op)
+      })
+
+      const backwardsSeen = new Map<number, number>()
+      backwards.forEach((cell, k) => {
+        const stage = reverseStage(cell, k)
+        const occurrence = backwardsSeen.get(stage) ?? 0
+        backwardsSeen.set(stage, occurrence + 1)
+        const op: ScheduleOp = { ...cell, microbatch, stage, role: 'pass', dependency: null }
+        if (occurrence === 0) {
+          byStage.backward.set(op.stage, op)
+        } else if (occurrence === 1) {
+          op.role = 'weight'
+          op.dependency = byStage.backward.get(op.stage)!
+          byStage.weight.set(op.stage, op)
+        } else {
+          op.role = 'duplicate'
+        }
+        batchOps.push(op)
+      })
+
+      weights.forEach((cell, k) => {
+        const stage = reverseStage(cell, k)
+        const op: ScheduleOp = { ...cell, microbatch, stage, role: 'weight', dependency: byStage.backward.get(stage) ?? null }
+        if (byStage.weight.has(stage)) {
+          op.role = 'duplicate'
+        } else {
+          byStage.weight.set(stage, op)
+        }
+        batchOps.push(op)
+      })
+
+      recomputes.forEach((cell, k) => {
+        const op: ScheduleOp = { ...cell, microbatch, stage: reverseStage(cell, k), role: 'pass', dependency: null }
+        if (byStage.recompute.has(op.stage)) {
+          op.role = 'duplicate'
+        } else {
+          byStage.recompute.set(op.stage, op)
+        }
+        batchOps.push(op)
+      })
+    }
+
+    batchOps.forEach(op => {
+      if (op.role !== 'pass') return
+      if (op.passType === 'forward') {
+        op.dependency = byStage.forward.get(op.stage - 1) ?? null
+      } else if (op.passType === 'recompute') {
+        op.dependency = byStage.forward.get(op.stage) ?? null
+      } else if (op.stage === lastStage) {
+        op.dependency = byStage.forward.get(op.stage) ?? null
+      } else {
+        op.dependency = byStage.backward.get(op.stage + 1) ?? null
+      }
+    })
+    ops.push(...batchOps)
+  })
+
+  resolvedSchedules.set(gridData, ops)
+  return ops
+}
+
+/**
+ * Timestep the output of an op's dependency is available on the op's GPU: when the dependency
+ * finishes, plus the send latency if it ran on another GPU
+ */
+export function dependencyReadyTime(op: ScheduleOp, latencies: CommLatencies): number | null {
+  const from = op.dependency
+  if (!from) return null
+  const end = from.timeIdx + from.duration
+  return from.gpuIdx === op.gpuIdx ? end : end + transferLatency(latencies, from.passType)
+}
+
+/**
+ * Checks a schedule against pipeline dependencies and reports every violation with its GPU and timestep
+ */
+export function validateSchedule(gridData: GridData, latencies: CommLatencies = DEFAULT_COMM_LATENCIES): Violation[] {
+  const numGPUs = gridData.length
+  const ops = resolveSchedule(gridData)
+  const violations: Violation[] = []
+  const report = (op: ScheduleOp, kind: ViolationKind, message: string) => {
+    violations.push({ kind, gpuIdx: op.gpuIdx, timeIdx: op.timeIdx, microbatch: op.microbatch, message })
+  }
+
+  const forwardEnds = new Map<string, number>()
+  const recomputeEnds = new Map<string, number>()
+  ops.forEach(op => {
+    if (op.role !== 'pass') return
+    if (op.passType === 'forward') forwardEnds.set(`${op.microbatch}-${op.stage}`, op.timeIdx + op.duration)
+    if (op.passType === 'recompute') recomputeEnds.set(`${op.microbatch}-${op.stage}`, op.timeIdx + op.duration)
+  })
+
+  ops.forEach(op => {
+    const label = `microbatch ${op.microbatch}`
+    if (op.role === 'duplicate') {
+      report(op, 'duplicate-pass', `This GPU already ran the ${op.passType} of ${label}`)
+      return
+    }
+    if (op.role === 'weight') {
+      if (!op.dependency) {
+        report(op, 'weight-before-backward', `W of ${label} runs without its backward on this GPU`)
+      } else if (op.dependency.timeIdx + op.dependency.duration > op.timeIdx) {
+        report(op, 'weight-before-backward', `W of ${label} starts before its backward finishes`)
+      }
+      return
+    }
+    const forwardEnd = forwardEnds.get(`${op.microbatch}-${op.stage}`)
+    if (op.passType === 'recompute') {
+      if (forwardEnd === undefined || forwardEnd > op.timeIdx) {
+        report(op, 'recompute-out-of-order', `Recompute of ${label} runs before its forward on this GPU`)
+      }
+      return
+    }
+    if (op.passType === 'backward') {
+      if (forwardEnd === undefined || forwardEnd > op.timeIdx) {
+        report(op, 'backward-before-forward', `Backward of ${label} runs before its forward on this GPU`)
+        return
+      }
+      const recomputeEnd = recomputeEnds.get(`${op.microbatch}-${op.stage}`)
+      if (recomputeEnd !== undefined && recomputeEnd > op.timeIdx) {
+        report(op, 'recompute-out-of-order', `Backward of ${label} starts before its recompute finishes`)
+        return
+      }
+    }
+
+    // The first forward has no dependency and the turnaround on the last stage is checked above
+    const isFirstStage = op.passType === 'forward' && op.stage === 0
+    const isTurnaround = op.dependency?.passType === 'forward' && op.passType === 'backward'
+    if (isFirstStage || isTurnaround) return
+
+    const upstreamGPU = op.passType === 'forward'
+      ? (op.stage - 1 + numGPUs) % numGPUs
+      : (op.stage + 1) % numGPUs
+    if (!op.dependency) {
+      report(op, 'upstream-not-finished', `The ${op.passType} of ${label} has not run on GPU ${upstreamGPU} yet`)
+    } else if (op.dependency.timeIdx + op.dependency.duration > op.timeIdx) {
+      report(op, 'upstream-not-finished', `The ${op.passType} of ${label} starts before GPU ${op.dependency.gpuIdx} finishes it`)
+    } else {
+      const readyTime = dependencyReadyTime(op, latencies)!
+      const payload = op.dependency.passType === 'forward' ? 'activations' : 'gradients'
+      if (readyTime > op.timeIdx) {
+        report(op, 'transfer-not-arrived',
+          `The ${payload} of ${label} from GPU ${op.dependency.gpuIdx} arrive at t${readyTime}, after this ${op.passType} starts`)
+      }
+    }
+  })
+
+  // W and recompute passes sit off the microbatch's critical path, so they may overlap its other passes
+  const criticalOpsByBatch = new Map<number, ScheduleOp[]>()
+  ops.filter(op => op.role !== 'weight' && op.passType !== 'recompute').forEach(op => {
+    if (!criticalOpsByBatch.has(op.microbatch)) criticalOpsByBatch.set(op.microbatch, [])
+    criticalOpsByBatch.get(op.microbatch)!.push(op)
+  })
+  criticalOpsByBatch.forEach(batchOps => {
+    // By start time, an op can only overlap the ops after it that start before it ends, so
+    // each pair is found without comparing every op of the microbatch with every other
+    const byStart = batchOps.map((op, order) => ({ op, order })).sort((a, b) => a.op.timeIdx - b.op.timeIdx)
+    const overlapping = batchOps.map(() => [] as Array<{ op: ScheduleOp; order: number }>)
+    byStart.forEach((entry, idx) => {
+      const end = entry.op.timeIdx + entry.op.duration
+      for (let next = idx + 1; next < byStart.length && byStart[next].op.timeIdx < end; next++) {
+        const other = byStart[next]
+        if (other.op.gpuIdx === entry.op.gpuIdx) continue
+        overlapping[entry.order].push(other)
+        overlapping[other.order].push(entry)
+      }
+    })
+    batchOps.forEach((op, order) => {
+      if (overlapping[order].length === 0) return
+      const others = overlapping[order].sort((a, b) => a.order - b.order).map(other => `GPU ${other.op.gpuIdx}`).join(', ')
+      report(op, 'concurrent-microbatch', `Microbatch ${op.microbatch} also runs on ${others} at the same time`)
+    })
+  })
+
+  // The optimizer step applies the gradients, so a GPU's last step waits for every gradient pass
+  // on it. Earlier steps close earlier iterations of a repeated schedule.
+  const operations = getOperations(gridData)
+  const gradientEnds = gridData.map(() => -Infinity)
+  const lastSteps = new Map<number, Operation>()
+  operations.forEach(op => {
+    if (op.passType === 'backward' || op.passType === 'weight') {
+      gradientEnds[op.gpuIdx] = Math.max(gradientEnds[op.gpuIdx], op.timeIdx + op.duration)
+    } else if (op.passType === 'optimizer' && op.timeIdx >= (lastSteps.get(op.gpuIdx)?.timeIdx ?? -1)) {
+      lastSteps.set(op.gpuIdx, op)
+    }
+  })
+  lastSteps.forEach(step => {
+    const gradientEnd = gradientEnds[step.gpuIdx]
+    if (gradientEnd > step.timeIdx) {
+      violations.push({
+        kind: 'optimizer-too-early',
+        gpuIdx: step.gpuIdx,
+        timeIdx: step.timeIdx,
+        microbatch: step.value,
+        message: `The optimizer step starts before this GPU's last gradient pass finishes at t${gradientEnd}`,
+      })
+    }
+  })
+
+  return violations.sort((a, b) => a.timeIdx - b.timeIdx || a.gpuIdx - b.gpuIdx)
+}
+
+/**
+ * Groups violation messages by cell, keyed by `${gpuIdx}-${timeIdx}`
+ */
+export function groupViolationsByCell(violations: Violation[]): Map<string, string[]> {
+  const byCell = new Map<string, string[]>()
+  violations.forEach(violation => {
+    const key = `${violation.gpuIdx}-${violation.timeIdx}`
+    if (!byCell.has(key)) byCell.set(key, [])
+    byCell.get(key)!.push(violation.message)
+  })
+  return byCell
+}
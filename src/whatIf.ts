@@ -0,0 +1,108 @@
+import { type CommLatencies, type GridData, getOperations, maxOf } from './utils'
+import { type OrderedOp, extractOpOrder, placeOpOrder } from './schedules'
+
+/**
+ * A one-off stall injected before the operation that starts at the given cell
+ */
+export type InjectedDelay = {
+  gpuIdx: number
+  timeIdx: number
+  delay: number
+}
+
+export type WhatIfConfig = {
+  // Factor each GPU's operations take longer by, e.g. 1.5 for a throttled node. GPUs past the
+  // end of the list run at normal speed.
+  slowdowns: number[]
+  // Forward and backward durations per stage replacing the schedule's own, before slowdowns.
+  // Stages past the end of a list reuse its last entry; an empty list keeps the schedule's.
+  forwardCosts: number[]
+  backwardCosts: number[]
+  delays: InjectedDelay[]
+}
+
+export const EMPTY_WHAT_IF: WhatIfConfig = {
+  slowdowns: [],
+  forwardCosts: [],
+  backwardCosts: [],
+  delays: [],
+}
+
+export type WhatIfResult = {
+  gridData: GridData
+  makespanBefore: number
+  makespanAfter: number
+  // Microbatches whose last pass finishes later than before, with how much later
+  delayedMicrobatches: Array<{ microbatch: number; delay: number }>
+}
+
+/**
+ * Parses a comma-separated list of per-GPU slowdown factors. Blank means no slowdown; returns
+ * null if any entry isn't a positive number.
+ */
+export function parseSlowdowns(text: string): number[] | null {
+  const values = text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number)
+  if (values.some(value => !Number.isFinite(value) || value <= 0)) return null
+  return values
+}
+
+export function isWhatIfActive(config: WhatIfConfig): boolean {
+  return config.slowdowns.some(factor => factor !== 1) || config.forwardCosts.length > 0
+    || config.backwardCosts.length > 0 || config.delays.length > 0
+}
+
+const makespanOf = (gridData: GridData) =>
+  Math.max(0, maxOf(getOperations(gridData).map(op => op.timeIdx + op.duration)))
+
+// Latest end of each microbatch's passes; optimizer steps belong to no microbatch
+function microbatchEnds(gridData: GridData): Map<number, number> {
+  const ends = new Map<number, number>()
+  getOperations(gridData).filter(op => op.passType !== 'optimizer').forEach(op => {
+    ends.set(op.value, Math.max(ends.get(op.value) ?? 0, op.timeIdx + op.duration))
+  })
+  return ends
+}
+
+/**
+ * Replays the schedule's op order with the what-if applied: stage costs replace forward and
+ * backward durations, each GPU's slowdown stretches its operations (rounded up to whole
+ * timesteps), and injected delays stall a GPU before the operation they name. Every operation
+ * then starts as soon as its GPU and dependencies allow, so delays propagate down and back up
+ * the pipeline the way a runtime executing the order would see them.
+ *
+ * Throws when the schedule's order can't be replayed, e.g. because a dependency is missing.
+ */
+export function simulateWhatIf(gridData: GridData, config: WhatIfConfig, latencies: CommLatencies): WhatIfResult {
+  const costOf = (costs: number[], gpuIdx: number) => costs[Math.min(gpuIdx, costs.length - 1)]
+  const operations = getOperations(gridData)
+
+  const orders = extractOpOrder(gridData).map((order, gpuIdx): OrderedOp[] => {
+    // Orders list a GPU's operations by start time, the same order getOperations finds them in
+    const starts = operations.filter(op => op.gpuIdx === gpuIdx).map(op => op.timeIdx)
+    const slowdown = config.slowdowns[gpuIdx] ?? 1
+    return order.map((op, idx) => {
+      let duration = op.duration
+      if (op.passType === 'forward' && config.forwardCosts.length > 0) duration = costOf(config.forwardCosts, gpuIdx)
+      if (op.passType === 'backward' && config.backwardCosts.length > 0) duration = costOf(config.backwardCosts, gpuIdx)
+      const delay = config.delays
+        .filter(injected => injected.gpuIdx === gpuIdx && injected.timeIdx === starts[idx])
+        .reduce((sum, injected) => sum + injected.delay, 0)
+      // The epsilon keeps factors like 1.1 from rounding up a whole extra timestep
+      return { ...op, duration: Math.ceil(duration * slowdown - 1e-9), ...(delay > 0 && { delay }) }
+    })
+  })
+
+  const perturbed = placeOpOrder(orders, latencies)
+  const endsBefore = microbatchEnds(gridData)
+  const endsAfter = microbatchEnds(perturbed)
+  const delayedMicrobatches = Array.from(endsBefore, ([microbatch, end]) => ({ microbatch, delay: (endsAfter.get(microbatch) ?? end) - end }))
+    .filter(({ delay }) => delay > 0)
+    .sort((a, b) => a.microbatch - b.microbatch)
+
+  return {
+    gridData: perturbed,
+    makespanBefore: makespanOf(gridData),
+    makespanAfter: makespanOf(perturbed),
+    delayedMicrobatches,
+  }
+}